@@ -0,0 +1,52 @@
+/**
+ * AbortSignal helpers shared by the client and Step.
+ */
+
+import { CancelledError } from './errors';
+
+/**
+ * @throws {CancelledError} If `signal` has fired
+ */
+export function throwIfAborted(signal?: AbortSignal): void {
+  if (signal && signal.aborted) {
+    throw cancelledError(signal);
+  }
+}
+
+export function cancelledError(signal: AbortSignal): CancelledError {
+  const reason = signal.reason;
+  const detail = reason instanceof Error ? reason.message : typeof reason === 'string' ? reason : null;
+  return new CancelledError(detail ? `Operation cancelled: ${detail}` : 'Operation cancelled', reason);
+}
+
+/**
+ * Call `listener` when `signal` fires (immediately if it already has)
+ *
+ * @returns Function that removes the listener
+ */
+export function onAbort(signal: AbortSignal | undefined, listener: () => void): () => void {
+  if (!signal) return () => {};
+  if (signal.aborted) {
+    listener();
+    return () => {};
+  }
+  signal.addEventListener('abort', listener, { once: true });
+  return () => signal.removeEventListener('abort', listener);
+}
+
+/**
+ * Wait `ms`, or reject with CancelledError as soon as `signal` fires
+ */
+export function abortableSleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    let removeListener = () => {};
+    const timer = setTimeout(() => {
+      removeListener();
+      resolve();
+    }, ms);
+    removeListener = onAbort(signal, () => {
+      clearTimeout(timer);
+      reject(cancelledError(signal!));
+    });
+  });
+}
@@ -0,0 +1,173 @@
+/**
+ * Batch submission with concurrency control and partial-failure reports.
+ */
+
+import { RateLimitError } from './errors';
+
+/**
+ * Options for batch submission
+ */
+export interface BatchOptions {
+  /** Maximum submissions in flight at once (default: 10) */
+  concurrency?: number;
+  /** Stop starting new items after the first hard failure (default: false) */
+  stopOnError?: boolean;
+  /** Sleep hook used while the batch is paused by a rate limit (default: setTimeout) */
+  sleep?: (ms: number) => Promise<void>;
+  /** Clock hook compared against RateLimitError.retryAt (default: Date.now) */
+  now?: () => number;
+}
+
+/**
+ * Outcome of one batch item
+ */
+export type BatchItemResult<I> =
+  | { status: 'submitted'; index: number; input: I; result: any; jobId: string | null }
+  | { status: 'rate_limited'; index: number; input: I; error: RateLimitError; retryAt: number | null }
+  | { status: 'failed'; index: number; input: I; error: unknown }
+  | { status: 'skipped'; index: number; input: I };
+
+/**
+ * Per-item report for a whole batch
+ */
+export interface BatchReport<I> {
+  /** Every item in input order */
+  results: BatchItemResult<I>[];
+  submitted: Extract<BatchItemResult<I>, { status: 'submitted' }>[];
+  rateLimited: Extract<BatchItemResult<I>, { status: 'rate_limited' }>[];
+  failed: Extract<BatchItemResult<I>, { status: 'failed' }>[];
+  /** Items never started because stopOnError tripped */
+  skipped: Extract<BatchItemResult<I>, { status: 'skipped' }>[];
+}
+
+const defaultSleep = (ms: number): Promise<void> => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Run `task` over `items` with bounded concurrency, yielding results as they complete.
+ *
+ * Inputs are pulled lazily, so arbitrarily large (async) iterables never sit in
+ * memory. A RateLimitError pauses every worker until its retryAt.
+ */
+export async function* runBatch<I>(
+  items: Iterable<I> | AsyncIterable<I>,
+  task: (item: I, index: number) => Promise<any>,
+  { concurrency = 10, stopOnError = false, sleep = defaultSleep, now = Date.now }: BatchOptions = {}
+): AsyncGenerator<BatchItemResult<I>> {
+  const iterator = toAsyncIterator(items);
+  const completed: BatchItemResult<I>[] = [];
+  let notify: (() => void) | null = null;
+  let nextIndex = 0;
+  let stopped = false;
+  let exhausted = false;
+  let finished = false;
+  let failure: { error: unknown } | null = null;
+  let pausedUntil = 0;
+
+  // Serialize pulls so concurrent workers never call next() on the iterator at once
+  let pulling: Promise<unknown> = Promise.resolve();
+  const pull = (): Promise<{ item: I; index: number } | null> => {
+    const result = pulling.then(async () => {
+      if (stopped || exhausted) return null;
+      const next = await iterator.next();
+      if (next.done) {
+        exhausted = true;
+        return null;
+      }
+      return { item: next.value, index: nextIndex++ };
+    });
+    pulling = result.catch(() => undefined);
+    return result;
+  };
+
+  const push = (result: BatchItemResult<I>): void => {
+    completed.push(result);
+    if (notify) notify();
+  };
+
+  const worker = async (): Promise<void> => {
+    for (;;) {
+      const entry = await pull();
+      if (!entry) return;
+
+      const wait = pausedUntil - now();
+      if (wait > 0) await sleep(wait);
+
+      const { item, index } = entry;
+      try {
+        const result = await task(item, index);
+        push({ status: 'submitted', index, input: item, result, jobId: result?.job_id ?? null });
+      } catch (error) {
+        if (error instanceof RateLimitError) {
+          if (error.retryAt) pausedUntil = Math.max(pausedUntil, error.retryAt);
+          push({ status: 'rate_limited', index, input: item, error, retryAt: error.retryAt });
+        } else {
+          if (stopOnError) stopped = true;
+          push({ status: 'failed', index, input: item, error });
+        }
+      }
+    }
+  };
+
+  Promise.all(Array.from({ length: Math.max(1, concurrency) }, worker))
+    .catch(error => {
+      stopped = true;
+      failure = { error };
+    })
+    .then(() => {
+      finished = true;
+      if (notify) notify();
+    });
+
+  try {
+    for (;;) {
+      if (completed.length > 0) {
+        yield completed.shift()!;
+        continue;
+      }
+      if (finished) break;
+      await new Promise<void>(resolve => { notify = resolve; });
+      notify = null;
+    }
+
+    if (failure) {
+      throw (failure as { error: unknown }).error;
+    }
+  } finally {
+    // Consumer stopped early: don't start anything else
+    stopped = true;
+  }
+}
+
+/**
+ * Run a batch over an array and collect a report in input order.
+ */
+export async function collectBatch<I>(
+  items: I[],
+  task: (item: I, index: number) => Promise<any>,
+  options: BatchOptions = {}
+): Promise<BatchReport<I>> {
+  const results: BatchItemResult<I>[] = new Array(items.length);
+  for await (const result of runBatch(items, task, options)) {
+    results[result.index] = result;
+  }
+
+  for (let i = 0; i < items.length; i++) {
+    if (!results[i]) results[i] = { status: 'skipped', index: i, input: items[i] };
+  }
+
+  return {
+    results,
+    submitted: results.filter((r): r is Extract<BatchItemResult<I>, { status: 'submitted' }> => r.status === 'submitted'),
+    rateLimited: results.filter((r): r is Extract<BatchItemResult<I>, { status: 'rate_limited' }> => r.status === 'rate_limited'),
+    failed: results.filter((r): r is Extract<BatchItemResult<I>, { status: 'failed' }> => r.status === 'failed'),
+    skipped: results.filter((r): r is Extract<BatchItemResult<I>, { status: 'skipped' }> => r.status === 'skipped'),
+  };
+}
+
+function toAsyncIterator<I>(items: Iterable<I> | AsyncIterable<I>): AsyncIterator<I> {
+  if (Symbol.asyncIterator in items) {
+    return (items as AsyncIterable<I>)[Symbol.asyncIterator]();
+  }
+  const iterator = (items as Iterable<I>)[Symbol.iterator]();
+  return { next: async () => iterator.next() };
+}
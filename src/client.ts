@@ -1,6 +1,49 @@
-import fetch from 'node-fetch';
-import { EZThrottleError, TimeoutError, RateLimitError } from './errors';
-import { EZThrottleConfig, SubmitJobParams, WebhookConfig } from './types';
+import {
+  EZThrottleError,
+  TimeoutError,
+  RateLimitError,
+  JobFailedError,
+  ProxyDeniedError,
+  AuthenticationError,
+  JobRejectedError,
+  NotFoundError,
+  NetworkError,
+  ValidationError,
+  CancelledError,
+} from './errors';
+import {
+  EZThrottleConfig,
+  SubmitJobParams,
+  JobPayload,
+  WebhookConfig,
+  JobStatus,
+  JobResponse,
+  WaitOptions,
+  ListJobsParams,
+  JobList,
+  CancelJobResponse,
+  SubmitRetryOptions,
+  JobCreated,
+  SubmitJobResult,
+  WebhookSecretInfo,
+  WebhookSecretResponse,
+  CallOptions,
+} from './types';
+import type { WebhookCorrelator } from './webhookCorrelator';
+import { createTransport, Transport, TransportResponse } from './transport';
+import { withRetry } from './retry';
+import { runBatch, collectBatch, BatchOptions, BatchReport, BatchItemResult } from './batch';
+import { HostRateLimiter } from './rateLimiter';
+import { Outbox, isUnreachableError } from './outbox';
+import { encodeJobPayload } from './wire';
+import { HookRegistry, HookEvents, HookName } from './hooks';
+import { Telemetry } from './telemetry';
+import { Logger, Redactor, createRedactingLogger } from './logger';
+import { MetricsCollector } from './metrics';
+import { Scheduler } from './scheduler';
+import { abortableSleep, cancelledError, throwIfAborted } from './abort';
+import { deriveJobKeys, namespaceJob } from './idempotency';
+import { SingleFlight } from './singleFlight';
 
 interface ProxyPayload {
   scope: string;
@@ -11,13 +54,18 @@ interface ProxyPayload {
   body: string;
 }
 
+interface ForwardedResponse {
+  status_code: number;
+  headers?: Record<string, string>;
+  body?: string;
+  /** Proxy request ID (x-request-id), not part of the wire format */
+  requestId?: string | null;
+}
+
 interface ProxyResponse {
   status: string;
   error?: string;
-  forwarded_response?: {
-    status_code: number;
-    body?: string;
-  };
+  forwarded_response?: ForwardedResponse;
 }
 
 interface QueueRequestParams {
@@ -28,6 +76,7 @@ interface QueueRequestParams {
   body?: string;
   metadata?: Record<string, any>;
   retryAt?: number;
+  signal?: AbortSignal;
 }
 
 interface QueueAndWaitParams extends QueueRequestParams {
@@ -46,15 +95,84 @@ export class EZThrottle {
   private apiKey: string;
   private tracktagsUrl: string;
   private ezthrottleUrl: string;
-
-  constructor({ apiKey, tracktagsUrl, ezthrottleUrl }: EZThrottleConfig) {
+  readonly correlator: WebhookCorrelator | null;
+  readonly transport: Transport;
+  private retry: SubmitRetryOptions;
+  readonly localLimiter: HostRateLimiter | null;
+  readonly outbox: Outbox | null;
+  readonly hooks: HookRegistry;
+  readonly telemetry: Telemetry;
+  /** Configured logger, redacting every context it is given (silent by default) */
+  readonly logger: Logger;
+  readonly redactor: Redactor;
+  readonly metrics: MetricsCollector | null;
+  /** Recurring jobs added with Step.schedule() */
+  readonly scheduler: Scheduler;
+  /** Prefix of every idempotent key this client submits */
+  readonly idempotencyNamespace: string | null;
+  /** HASH keys are derived by the SDK and sent, instead of derived by EZThrottle */
+  readonly sendIdempotentKeys: boolean;
+  /** Deduplicates concurrent FRUGAL executions (null unless enabled) */
+  readonly singleFlight: SingleFlight | null;
+
+  constructor({
+    apiKey,
+    tracktagsUrl,
+    ezthrottleUrl,
+    correlator,
+    transport,
+    retry,
+    localRateLimit,
+    outbox,
+    hooks,
+    telemetry,
+    logger,
+    redact,
+    metrics,
+    scheduler,
+    idempotencyNamespace,
+    sendIdempotentKeys,
+    singleFlight,
+  }: EZThrottleConfig) {
     if (!apiKey) {
-      throw new Error('apiKey is required');
+      throw new ValidationError('apiKey is required');
     }
 
     this.apiKey = apiKey;
     this.tracktagsUrl = tracktagsUrl || 'https://tracktags.fly.dev';
     this.ezthrottleUrl = ezthrottleUrl || 'https://ezthrottle.fly.dev';
+    this.correlator = correlator || null;
+    this.transport = createTransport(transport);
+    this.retry = retry || {};
+    this.localLimiter = localRateLimit === false ? null : new HostRateLimiter(localRateLimit || {});
+    this.outbox = outbox ? new Outbox(job => this._submitJob(job), outbox === true ? {} : outbox) : null;
+    this.hooks = new HookRegistry(hooks);
+    this.telemetry = new Telemetry(telemetry);
+    this.redactor = new Redactor({ ...redact, secrets: [apiKey, ...(redact?.secrets || [])] });
+    this.logger = createRedactingLogger(logger, this.redactor);
+    this.metrics = metrics ? new MetricsCollector(metrics === true ? {} : metrics) : null;
+    if (this.metrics) this.metrics.observe(this.hooks);
+    this.scheduler = new Scheduler(this, scheduler);
+    this.idempotencyNamespace = idempotencyNamespace || null;
+    this.sendIdempotentKeys = sendIdempotentKeys === true;
+    this.singleFlight = singleFlight
+      ? new SingleFlight(singleFlight === true ? {} : singleFlight, this.logger)
+      : null;
+  }
+
+  /**
+   * Listen to a lifecycle hook
+   *
+   * @returns Function that removes the listener
+   *
+   * @example
+   * ```typescript
+   * client.on('fallbackTriggered', e => console.log(`${e.path} fired after`, e.failure));
+   * client.on('rateLimited', e => metrics.increment('ezthrottle.429'));
+   * ```
+   */
+  on<K extends HookName>(name: K, listener: (event: HookEvents[K]) => void): () => void {
+    return this.hooks.on(name, listener);
   }
 
   /**
@@ -78,113 +196,138 @@ export class EZThrottle {
    * @param {number} [options.onFailureTimeoutMs] - Timeout before triggering onFailure
    * @param {string} [options.idempotentKey] - Deduplication key
    * @param {number} [options.retryAt] - Timestamp (ms) when job can be retried
-   * @returns {Promise<Object>} - {job_id, status, ...}
+   * @param {Object} [callOptions] - {signal} to cancel the submission
+   * @returns {Promise<SubmitJobResult>} - {job_id, status, ...}
+   *
+   * Jobs without an idempotentKey (HASH strategy) are deduplicated by
+   * EZThrottle's own request hash, unless the client has
+   * `sendIdempotentKeys`: then deriveIdempotentKey() is sent explicitly.
+   * With an `idempotencyNamespace`, every key in the workflow tree is
+   * prefixed with it; jobs without a key get deriveIdempotentKey(), namespaced.
+   *
+   * Retryable failures (429, 5xx, network errors) are retried according to
+   * the client's `retry` policy. If EZThrottle is still unreachable and the
+   * client has an `outbox`, the job is persisted for background replay and
+   * an OutboxAck ({status: 'outboxed', job_id: null, outbox_id, idempotent_key}) is returned.
+   *
+   * A cancelled submission throws CancelledError and is never outboxed. If
+   * the proxy request was already sent, the job may still have been created;
+   * resubmit with the same idempotentKey to find out.
    */
-  async submitJob({
-    url,
-    method = 'GET',
-    headers,
-    body,
-    metadata,
-    webhooks,
-    webhookQuorum = 1,
-    regions,
-    regionPolicy = 'fallback',
-    executionMode = 'race',
-    retryPolicy,
-    fallbackJob,
-    onSuccess,
-    onFailure,
-    onFailureTimeoutMs,
-    idempotentKey,
-    retryAt,
-  }: SubmitJobParams): Promise<any> {
-    // Build EZThrottle job payload
-    const jobPayload: Record<string, any> = {
-      url,
-      method: method.toUpperCase(),
-    };
-
-    // Add optional parameters
-    if (headers) jobPayload.headers = headers;
-    if (body) jobPayload.body = body;
-    if (metadata) jobPayload.metadata = metadata;
-    if (webhooks) jobPayload.webhooks = webhooks;
-    if (webhookQuorum !== 1) jobPayload.webhook_quorum = webhookQuorum;
-    if (regions) jobPayload.regions = regions;
-    if (regionPolicy !== 'fallback') jobPayload.region_policy = regionPolicy;
-    if (executionMode !== 'race') jobPayload.execution_mode = executionMode;
-    if (retryPolicy) jobPayload.retry_policy = retryPolicy;
-    if (fallbackJob) jobPayload.fallback_job = fallbackJob;
-    if (onSuccess) jobPayload.on_success = onSuccess;
-    if (onFailure) jobPayload.on_failure = onFailure;
-    if (onFailureTimeoutMs !== undefined) jobPayload.on_failure_timeout_ms = onFailureTimeoutMs;
-    if (idempotentKey) jobPayload.idempotent_key = idempotentKey;
-    if (retryAt !== undefined) jobPayload.retry_at = retryAt;
-
-    console.log('[SDK] Sending jobPayload with idempotent_key:', jobPayload.idempotent_key);
-
-    // Build proxy request
-    const proxyPayload: ProxyPayload = {
-      scope: 'customer',
-      metric_name: '',
-      target_url: `${this.ezthrottleUrl}/api/v1/jobs`,
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(jobPayload),
-    };
-
-    const response = await fetch(`${this.tracktagsUrl}/api/v1/proxy`, {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${this.apiKey}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(proxyPayload),
-    });
-
-    // Handle proxy responses
-    if (response.status === 429) {
-      const errorData = await response.json() as any;
-      const retryAfterSeconds = response.headers.get('retry-after');
-      let calculatedRetryAt = errorData.retry_at;
-
-      if (retryAfterSeconds && !calculatedRetryAt) {
-        calculatedRetryAt = Date.now() + (parseInt(retryAfterSeconds) * 1000);
+  async submitJob(params: SubmitJobParams, { signal }: CallOptions = {}): Promise<SubmitJobResult> {
+    throwIfAborted(signal);
+    const attributes = { 'ezthrottle.url': params.url, 'http.method': (params.method || 'GET').toUpperCase() };
+    return this.telemetry.span('ezthrottle.submit_job', attributes, async span => {
+      const job = this.telemetry.traceJob(this.resolveIdempotentKeys(params));
+      try {
+        const created = await this._submitJob(job, signal);
+        if (span) span.setAttribute('ezthrottle.job_id', created.job_id);
+        return created;
+      } catch (error) {
+        if (this.outbox && isUnreachableError(error)) {
+          this.logger.warn('EZThrottle unreachable, job saved to outbox', { url: job.url, error });
+          return this.outbox.enqueue(job, error);
+        }
+        throw error;
       }
+    });
+  }
 
-      throw new RateLimitError(
-        `Rate limited: ${errorData.error || 'Unknown error'}`,
-        calculatedRetryAt
-      );
-    }
+  /**
+   * The idempotent keys a job tree is submitted with: derived HASH keys
+   * (with sendIdempotentKeys) and the idempotencyNamespace applied
+   */
+  resolveIdempotentKeys<P extends SubmitJobParams | JobPayload>(job: P): P {
+    return namespaceJob(this.sendIdempotentKeys ? deriveJobKeys(job) : job, this.idempotencyNamespace);
+  }
 
-    if (response.status !== 200) {
-      const text = await response.text();
-      throw new EZThrottleError(`Proxy request failed: ${text}`);
-    }
+  /**
+   * Submit a job without outbox handling (used directly by outbox replay)
+   */
+  private async _submitJob(params: SubmitJobParams, signal?: AbortSignal): Promise<JobCreated> {
+    // Encode the whole workflow tree (fallbacks, on_success, on_failure) to the wire schema
+    const jobPayload = encodeJobPayload(params);
+
+    this.logger.debug('Submitting job', {
+      url: jobPayload.url,
+      method: jobPayload.method,
+      idempotent_key: jobPayload.idempotent_key ?? null,
+    });
 
-    const proxyResponse = await response.json() as ProxyResponse;
+    // Retries resend the identical payload, so the idempotent key never changes
+    const jobBody = JSON.stringify(jobPayload);
+    const startedAt = Date.now();
+    const created: JobCreated = await withRetry(async () => {
+      try {
+        const forwarded = await this._proxyRequest('POST', '/api/v1/jobs', jobBody, signal);
 
-    if (proxyResponse.status !== 'allowed') {
-      throw new EZThrottleError(
-        `Request denied: ${proxyResponse.error || 'Unknown error'}`
-      );
-    }
+        if (!isSuccess(forwarded.status_code)) {
+          throw this._forwardedError('EZThrottle job creation failed', forwarded);
+        }
 
-    const forwarded = proxyResponse.forwarded_response || {} as { status_code?: number; body?: string };
-    const statusCode = forwarded.status_code || 0;
+        return this._parseForwardedBody(forwarded);
+      } catch (error) {
+        if (this.metrics && error instanceof RateLimitError) this.metrics.recordRateLimited(params.url);
+        throw error;
+      }
+    }, this.retry, signal);
+
+    const durationMs = Date.now() - startedAt;
+    if (this.metrics) this.metrics.recordSubmit(params, durationMs);
+    this.logger.debug('Job created', { url: params.url, job_id: created.job_id, status: created.status });
+    this.hooks.emit('jobSubmitted', {
+      url: params.url,
+      job_id: created.job_id,
+      idempotent_key: created.idempotent_key ?? jobPayload.idempotent_key ?? null,
+      duration_ms: durationMs,
+    });
+    return created;
+  }
 
-    if (statusCode < 200 || statusCode >= 300) {
-      throw new EZThrottleError(
-        `EZThrottle job creation failed: ${forwarded.body || 'Unknown error'}`
-      );
-    }
+  /**
+   * Submit many jobs with bounded concurrency and a per-item report.
+   *
+   * A RateLimitError pauses the whole batch until its retryAt; the affected
+   * item is reported as rate limited rather than failing the batch.
+   *
+   * @param jobs - Jobs to submit (same shape as submitJob())
+   * @param options - {concurrency (default 10), stopOnError (default false)}
+   * @returns Report with submitted, rateLimited, failed and skipped items
+   *
+   * @example
+   * ```typescript
+   * const report = await client.submitJobs(orders.map(order => ({
+   *   url: 'https://api.example.com/charge',
+   *   method: 'POST',
+   *   body: JSON.stringify(order),
+   *   idempotentKey: `order_${order.id}`,
+   * })), { concurrency: 20 });
+   *
+   * console.log(`${report.submitted.length} queued, ${report.failed.length} failed`);
+   * report.rateLimited.forEach(r => console.log(r.input.idempotentKey, new Date(r.retryAt!)));
+   * ```
+   */
+  async submitJobs(jobs: SubmitJobParams[], options: BatchOptions = {}): Promise<BatchReport<SubmitJobParams>> {
+    return collectBatch(jobs, job => this.submitJob(job), options);
+  }
 
-    const ezthrottleResponse = JSON.parse(forwarded.body || '{}');
-    return ezthrottleResponse;
+  /**
+   * Streaming variant of submitJobs() for inputs too large to hold in memory.
+   *
+   * Pulls jobs lazily from any (async) iterable and yields each result as it completes.
+   *
+   * @example
+   * ```typescript
+   * for await (const result of client.submitJobsIterator(readJobsFromCsv(), { concurrency: 50 })) {
+   *   if (result.status !== 'submitted') console.log(result.index, result.status);
+   * }
+   * ```
+   */
+  submitJobsIterator(
+    jobs: Iterable<SubmitJobParams> | AsyncIterable<SubmitJobParams>,
+    options: BatchOptions = {}
+  ): AsyncGenerator<BatchItemResult<SubmitJobParams>> {
+    return runBatch(jobs, job => this.submitJob(job), options);
   }
 
   /**
@@ -198,8 +341,9 @@ export class EZThrottle {
     headers,
     body,
     metadata,
-    retryAt
-  }: QueueRequestParams): Promise<any> {
+    retryAt,
+    signal,
+  }: QueueRequestParams): Promise<SubmitJobResult> {
     // Convert singular webhookUrl to webhooks array
     const webhooks: WebhookConfig[] | undefined = webhookUrl
       ? [{ url: webhookUrl, has_quorum_vote: true }]
@@ -213,17 +357,27 @@ export class EZThrottle {
       metadata,
       webhooks,
       retryAt,
-    });
+    }, { signal });
   }
 
-  async request({ url, method = 'GET', headers, body }: RequestParams): Promise<any> {
-    return fetch(url, {
+  async request({ url, method = 'GET', headers, body }: RequestParams): Promise<TransportResponse> {
+    return this.transport.request(url, {
       method,
       headers,
       body,
     });
   }
 
+  /**
+   * Queue a request and wait for EZThrottle to finish executing it.
+   *
+   * Polls getJob() every `pollInterval` ms until the job succeeds or fails.
+   *
+   * @returns The final response captured by EZThrottle
+   * @throws {JobFailedError} If the job finishes with status 'failed' or 'cancelled'
+   * @throws {TimeoutError} If the job does not finish within `timeout` ms
+   * @throws {CancelledError} If `signal` fires while submitting or waiting
+   */
   async queueAndWait({
     url,
     webhookUrl,
@@ -234,7 +388,8 @@ export class EZThrottle {
     retryAt,
     timeout = 300000,
     pollInterval = 2000,
-  }: QueueAndWaitParams): Promise<any> {
+    signal,
+  }: QueueAndWaitParams): Promise<JobResponse> {
     const result = await this.queueRequest({
       url,
       webhookUrl,
@@ -243,25 +398,177 @@ export class EZThrottle {
       body,
       metadata,
       retryAt,
+      signal,
     });
 
     const jobId = result.job_id;
     if (!jobId) {
-      throw new EZThrottleError('No job_id in response');
+      throw new EZThrottleError('No job_id in response', null, { httpStatus: 200 });
+    }
+
+    return this.waitForJob(jobId, { timeout, pollInterval, signal });
+  }
+
+  /**
+   * Get the current status of a job.
+   *
+   * @param jobId - Job ID returned by submitJob()
+   * @returns Job status including attempts, region and final response
+   * @throws {NotFoundError} If the job does not exist
+   *
+   * @example
+   * ```typescript
+   * const job = await client.getJob('job_1763674210055_853341');
+   * if (job.status === 'success') {
+   *   console.log(job.response?.status_code, job.response?.body);
+   * }
+   * ```
+   */
+  async getJob(jobId: string, { signal }: CallOptions = {}): Promise<JobStatus> {
+    if (!jobId) {
+      throw new ValidationError('jobId is required');
+    }
+
+    const forwarded = await this._proxyRequest('GET', `/api/v1/jobs/${encodeURIComponent(jobId)}`, '', signal);
+
+    if (!isSuccess(forwarded.status_code)) {
+      throw this._forwardedError('Failed to get job', forwarded, `Job ${jobId} not found`);
+    }
+
+    return this._parseForwardedBody(forwarded) as JobStatus;
+  }
+
+  /**
+   * List jobs, newest first, one page at a time.
+   *
+   * @param params - Optional filters ({status, idempotentKey, since, cursor, limit})
+   * @returns Page of jobs with `next_cursor` for the following page
+   *
+   * @example
+   * ```typescript
+   * let page = await client.listJobs({ status: 'failed', since: Date.now() - 3600000 });
+   * while (true) {
+   *   page.jobs.forEach(job => console.log(job.job_id, job.error));
+   *   if (!page.has_more) break;
+   *   page = await client.listJobs({ status: 'failed', cursor: page.next_cursor! });
+   * }
+   * ```
+   */
+  async listJobs({ status, idempotentKey, since, cursor, limit }: ListJobsParams = {}): Promise<JobList> {
+    const query = new URLSearchParams();
+    if (status) query.set('status', status);
+    if (idempotentKey) query.set('idempotent_key', idempotentKey);
+    if (since !== undefined) query.set('since', String(since));
+    if (cursor) query.set('cursor', cursor);
+    if (limit !== undefined) query.set('limit', String(limit));
+
+    const queryString = query.toString();
+    const forwarded = await this._proxyRequest('GET', `/api/v1/jobs${queryString ? `?${queryString}` : ''}`);
+
+    if (!isSuccess(forwarded.status_code)) {
+      throw this._forwardedError('Failed to list jobs', forwarded);
+    }
+
+    const page = this._parseForwardedBody(forwarded);
+    return {
+      jobs: page.jobs || [],
+      next_cursor: page.next_cursor || null,
+      has_more: Boolean(page.has_more ?? page.next_cursor),
+    };
+  }
+
+  /**
+   * Look up the most recent job submitted with an idempotent key.
+   *
+   * @param idempotentKey - Key passed to submitJob() or Step.idempotentKey(),
+   *   including the client's idempotencyNamespace (as computeIdempotentKey() returns it).
+   *   Keys EZThrottle derived itself (HASH without sendIdempotentKeys) aren't known locally
+   * @returns The job, or null if no job exists for that key
+   *
+   * @example
+   * ```typescript
+   * // Did order_123's charge go out?
+   * const job = await client.getJobByIdempotentKey('order_123');
+   * console.log(job ? job.status : 'never submitted');
+   * ```
+   */
+  async getJobByIdempotentKey(idempotentKey: string): Promise<JobStatus | null> {
+    if (!idempotentKey) {
+      throw new ValidationError('idempotentKey is required');
+    }
+
+    const page = await this.listJobs({ idempotentKey, limit: 1 });
+    return page.jobs[0] || null;
+  }
+
+  /**
+   * Cancel a job that has not finished yet.
+   *
+   * @param jobId - Job ID returned by submitJob()
+   * @returns Cancellation result with the job's new status
+   * @throws {NotFoundError} If the job does not exist
+   * @throws {JobRejectedError} If the job already finished (409)
+   */
+  async cancelJob(jobId: string): Promise<CancelJobResponse> {
+    if (!jobId) {
+      throw new ValidationError('jobId is required');
+    }
+
+    const forwarded = await this._proxyRequest('DELETE', `/api/v1/jobs/${encodeURIComponent(jobId)}`);
+
+    if (forwarded.status_code === 409) {
+      throw this._forwardedError(`Job ${jobId} cannot be cancelled`, forwarded);
+    }
+
+    if (!isSuccess(forwarded.status_code)) {
+      throw this._forwardedError('Failed to cancel job', forwarded, `Job ${jobId} not found`);
     }
 
+    return this._parseForwardedBody(forwarded) as CancelJobResponse;
+  }
+
+  /**
+   * Poll a job until it reaches a terminal state.
+   *
+   * @param jobId - Job ID returned by submitJob()
+   * @param options - Polling options ({timeout, pollInterval, signal})
+   * @returns The final response captured by EZThrottle
+   * @throws {JobFailedError} If the job finishes with status 'failed' or 'cancelled'
+   * @throws {TimeoutError} If the job does not finish within `timeout` ms
+   * @throws {CancelledError} If `signal` fires (the job itself keeps running; see cancelJob())
+   */
+  async waitForJob(
+    jobId: string,
+    { timeout = 300000, pollInterval = 2000, signal }: WaitOptions = {}
+  ): Promise<JobResponse> {
     const startTime = Date.now();
 
-    return new Promise((resolve, reject) => {
-      const checkResult = async (): Promise<void> => {
-        if (Date.now() - startTime > timeout) {
-          reject(new TimeoutError(`Timeout waiting for job ${jobId}`));
-          return;
-        }
-        setTimeout(checkResult, pollInterval);
-      };
-      checkResult();
-    });
+    for (;;) {
+      const job = await this.getJob(jobId, { signal });
+
+      if (job.status === 'success') {
+        return job.response || { status_code: 0 };
+      }
+
+      if (job.status === 'cancelled') {
+        throw this.redactor.redactError(new JobFailedError(`Job ${jobId} was cancelled`, jobId, job.response || null));
+      }
+
+      if (job.status === 'failed') {
+        throw this.redactor.redactError(new JobFailedError(
+          `Job ${jobId} failed: ${job.error || `status ${job.response?.status_code ?? 'unknown'}`}`,
+          jobId,
+          job.response || null
+        ));
+      }
+
+      const elapsed = Date.now() - startTime;
+      if (elapsed >= timeout) {
+        throw new TimeoutError(`Timeout waiting for job ${jobId}`);
+      }
+
+      await abortableSleep(Math.min(pollInterval, timeout - elapsed), signal);
+    }
   }
 
   // ============================================================================
@@ -274,7 +581,8 @@ export class EZThrottle {
    * @param primarySecret - Primary webhook secret (min 16 characters)
    * @param secondarySecret - Optional secondary secret for rotation (min 16 characters)
    * @returns Response with status and message
-   * @throws {Error} If secret creation fails
+   * @throws {ValidationError} If a secret is shorter than 16 characters
+   * @throws {JobRejectedError} If EZThrottle rejects the secret
    *
    * @example
    * ```typescript
@@ -288,13 +596,17 @@ export class EZThrottle {
    * );
    * ```
    */
-  async createWebhookSecret(primarySecret: string, secondarySecret?: string): Promise<any> {
+  async createWebhookSecret(
+    primarySecret: string,
+    secondarySecret?: string,
+    { signal }: CallOptions = {}
+  ): Promise<WebhookSecretResponse> {
     if (primarySecret.length < 16) {
-      throw new Error('primarySecret must be at least 16 characters');
+      throw new ValidationError('primarySecret must be at least 16 characters');
     }
 
     if (secondarySecret && secondarySecret.length < 16) {
-      throw new Error('secondarySecret must be at least 16 characters');
+      throw new ValidationError('secondarySecret must be at least 16 characters');
     }
 
     const payload: Record<string, any> = { primary_secret: primarySecret };
@@ -302,45 +614,21 @@ export class EZThrottle {
       payload.secondary_secret = secondarySecret;
     }
 
-    const proxyPayload: ProxyPayload = {
-      scope: 'customer',
-      metric_name: '',
-      target_url: `${this.ezthrottleUrl}/api/v1/webhook-secrets`,
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify(payload),
-    };
+    const forwarded = await this._proxyRequest('POST', '/api/v1/webhook-secrets', JSON.stringify(payload), signal);
 
-    const response = await fetch(`${this.tracktagsUrl}/api/v1/proxy`, {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${this.apiKey}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(proxyPayload),
-    });
-
-    if (response.status !== 200) {
-      const text = await response.text();
-      throw new EZThrottleError(`Failed to create webhook secret: ${text}`);
+    if (!isSuccess(forwarded.status_code)) {
+      throw this._forwardedError('Failed to create webhook secret', forwarded);
     }
 
-    const proxyResponse = await response.json() as ProxyResponse;
-    if (proxyResponse.status !== 'allowed') {
-      throw new EZThrottleError(
-        `Request denied: ${proxyResponse.error || 'Unknown error'}`
-      );
-    }
-
-    const forwarded = proxyResponse.forwarded_response || {} as { body?: string };
-    return JSON.parse(forwarded.body || '{}');
+    return this._parseForwardedBody(forwarded);
   }
 
   /**
    * Get webhook secrets (masked for security).
    *
    * @returns Object with masked secrets
-   * @throws {Error} If secrets not configured (404) or request fails
+   * @throws {NotFoundError} If secrets are not configured
+   * @throws {JobRejectedError} If the request fails
    *
    * @example
    * ```typescript
@@ -354,56 +642,25 @@ export class EZThrottle {
    * // }
    * ```
    */
-  async getWebhookSecret(): Promise<any> {
-    const proxyPayload: ProxyPayload = {
-      scope: 'customer',
-      metric_name: '',
-      target_url: `${this.ezthrottleUrl}/api/v1/webhook-secrets`,
-      method: 'GET',
-      headers: {},
-      body: '',
-    };
-
-    const response = await fetch(`${this.tracktagsUrl}/api/v1/proxy`, {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${this.apiKey}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(proxyPayload),
-    });
-
-    if (response.status !== 200) {
-      const text = await response.text();
-      throw new EZThrottleError(`Failed to get webhook secret: ${text}`);
-    }
-
-    const proxyResponse = await response.json() as ProxyResponse;
-    if (proxyResponse.status !== 'allowed') {
-      throw new EZThrottleError(
-        `Request denied: ${proxyResponse.error || 'Unknown error'}`
+  async getWebhookSecret({ signal }: CallOptions = {}): Promise<WebhookSecretInfo> {
+    const forwarded = await this._proxyRequest('GET', '/api/v1/webhook-secrets', '', signal);
+
+    if (!isSuccess(forwarded.status_code)) {
+      throw this._forwardedError(
+        'Failed to get webhook secrets',
+        forwarded,
+        'No webhook secrets configured. Call createWebhookSecret() first.'
       );
     }
 
-    const forwarded = proxyResponse.forwarded_response || {} as { status_code?: number; body?: string };
-    const statusCode = forwarded.status_code || 0;
-
-    if (statusCode === 404) {
-      throw new EZThrottleError('No webhook secrets configured. Call createWebhookSecret() first.');
-    }
-
-    if (statusCode < 200 || statusCode >= 300) {
-      throw new EZThrottleError(`Failed to get webhook secrets: ${forwarded.body}`);
-    }
-
-    return JSON.parse(forwarded.body || '{}');
+    return this._parseForwardedBody(forwarded);
   }
 
   /**
    * Delete webhook secrets.
    *
    * @returns Response with status and message
-   * @throws {Error} If deletion fails
+   * @throws {JobRejectedError} If deletion fails
    *
    * @example
    * ```typescript
@@ -411,39 +668,14 @@ export class EZThrottle {
    * console.log(result); // { status: 'ok', message: 'Webhook secrets deleted' }
    * ```
    */
-  async deleteWebhookSecret(): Promise<any> {
-    const proxyPayload: ProxyPayload = {
-      scope: 'customer',
-      metric_name: '',
-      target_url: `${this.ezthrottleUrl}/api/v1/webhook-secrets`,
-      method: 'DELETE',
-      headers: {},
-      body: '',
-    };
+  async deleteWebhookSecret({ signal }: CallOptions = {}): Promise<WebhookSecretResponse> {
+    const forwarded = await this._proxyRequest('DELETE', '/api/v1/webhook-secrets', '', signal);
 
-    const response = await fetch(`${this.tracktagsUrl}/api/v1/proxy`, {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${this.apiKey}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(proxyPayload),
-    });
-
-    if (response.status !== 200) {
-      const text = await response.text();
-      throw new EZThrottleError(`Failed to delete webhook secret: ${text}`);
-    }
-
-    const proxyResponse = await response.json() as ProxyResponse;
-    if (proxyResponse.status !== 'allowed') {
-      throw new EZThrottleError(
-        `Request denied: ${proxyResponse.error || 'Unknown error'}`
-      );
+    if (!isSuccess(forwarded.status_code)) {
+      throw this._forwardedError('Failed to delete webhook secret', forwarded);
     }
 
-    const forwarded = proxyResponse.forwarded_response || {} as { body?: string };
-    return JSON.parse(forwarded.body || '{}');
+    return this._parseForwardedBody(forwarded);
   }
 
   /**
@@ -497,24 +729,20 @@ export class EZThrottle {
    *
    * Note: The fallback is ONLY called when EZThrottle itself is unreachable
    * (connection errors, timeouts). It is NOT called for rate limiting or
-   * other EZThrottle errors - those indicate EZThrottle is working.
+   * other EZThrottle errors - those indicate EZThrottle is working. Nor is it
+   * called after `signal` fires: that throws CancelledError.
    */
   async forwardOrFallback<T>(
     fallback: () => Promise<T>,
-    options: SubmitJobParams
-  ): Promise<any | T> {
+    options: SubmitJobParams,
+    { signal }: CallOptions = {}
+  ): Promise<JobCreated | T> {
     try {
-      return await this.submitJob(options);
-    } catch (error: any) {
+      // Bypass the outbox: an unreachable EZThrottle should run the fallback instead
+      return await this._submitJob(this.telemetry.traceJob(this.resolveIdempotentKeys(options)), signal);
+    } catch (error) {
       // Check if it's a network/connection error
-      if (
-        error.code === 'ECONNREFUSED' ||
-        error.code === 'ENOTFOUND' ||
-        error.code === 'ETIMEDOUT' ||
-        error.code === 'ECONNRESET' ||
-        error.name === 'AbortError' ||
-        error.type === 'system'
-      ) {
+      if (error instanceof NetworkError) {
         // EZThrottle is unreachable - use fallback
         return fallback();
       }
@@ -523,31 +751,243 @@ export class EZThrottle {
     }
   }
 
-  async rotateWebhookSecret(newSecret: string): Promise<any> {
+  async rotateWebhookSecret(newSecret: string, { signal }: CallOptions = {}): Promise<WebhookSecretResponse> {
     if (newSecret.length < 16) {
-      throw new Error('newSecret must be at least 16 characters');
+      throw new ValidationError('newSecret must be at least 16 characters');
     }
 
     try {
       // Get current secret to use as secondary
-      const current = await this.getWebhookSecret();
+      const current = await this.getWebhookSecret({ signal });
       const oldPrimary = current.primary_secret || '';
 
       // If we have a masked secret, we can't use it as secondary
       // In this case, just set the new secret without secondary
       if (oldPrimary.includes('****')) {
-        return this.createWebhookSecret(newSecret);
+        return this.createWebhookSecret(newSecret, undefined, { signal });
       }
 
       // Set new as primary, old as secondary
-      return this.createWebhookSecret(newSecret, oldPrimary);
+      return this.createWebhookSecret(newSecret, oldPrimary, { signal });
     } catch (error) {
-      if (error instanceof EZThrottleError &&
-          error.message.includes('No webhook secrets configured')) {
+      if (error instanceof NotFoundError) {
         // No existing secret, just create new one
-        return this.createWebhookSecret(newSecret);
+        return this.createWebhookSecret(newSecret, undefined, { signal });
       }
       throw error;
     }
   }
+
+  /**
+   * POST a proxy envelope to TrackTags
+   *
+   * @throws {NetworkError} If the proxy cannot be reached
+   * @throws {CancelledError} If `signal` fires
+   */
+  private async _postProxy(proxyPayload: ProxyPayload, signal?: AbortSignal): Promise<TransportResponse> {
+    try {
+      return await this.transport.request(`${this.tracktagsUrl}/api/v1/proxy`, {
+        method: 'POST',
+        headers: {
+          ...this.telemetry.traceContext(),
+          'Authorization': `Bearer ${this.apiKey}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(proxyPayload),
+        signal,
+      });
+    } catch (error) {
+      if (signal && signal.aborted) {
+        throw cancelledError(signal);
+      }
+      throw new NetworkError(
+        `Proxy unreachable: ${error instanceof Error ? error.message : String(error)}`,
+        { cause: error }
+      );
+    }
+  }
+
+  /**
+   * Send a request to EZThrottle through the TrackTags proxy
+   *
+   * @returns The forwarded EZThrottle response (status_code is 0 if missing)
+   * @throws {RateLimitError} If the proxy rate limits the request (429)
+   * @throws {AuthenticationError} If the API key is rejected (401/403)
+   * @throws {ProxyDeniedError} If the proxy refuses to forward the request
+   * @throws {NetworkError} If the proxy cannot be reached
+   * @throws {CancelledError} If `signal` fires before the response is read
+   */
+  private async _proxyRequest(
+    method: string,
+    path: string,
+    body: string = '',
+    signal?: AbortSignal
+  ): Promise<ForwardedResponse> {
+    throwIfAborted(signal);
+    const startedAt = Date.now();
+    try {
+      const forwarded = await this._sendProxyRequest(method, path, body, signal);
+      this.logger.debug('Proxy request completed', {
+        method,
+        path,
+        status_code: forwarded.status_code,
+        request_id: forwarded.requestId ?? null,
+        duration_ms: Date.now() - startedAt,
+      });
+      return forwarded;
+    } catch (caught) {
+      // An abort while reading the body surfaces as the transport's own AbortError
+      const error = signal && signal.aborted && !(caught instanceof CancelledError) ? cancelledError(signal) : caught;
+      this.redactor.redactError(error);
+      if (error instanceof CancelledError) {
+        this.logger.debug('Proxy request cancelled', { method, path });
+      } else if (error instanceof RateLimitError) {
+        this.logger.warn('Proxy rate limited', { method, path, retry_at: error.retryAt });
+        this.hooks.emit('rateLimited', { method, path, retryAt: error.retryAt });
+      } else {
+        this.logger.warn('Proxy request failed', { method, path, error });
+        this.hooks.emit('proxyError', { method, path, error });
+      }
+      throw error;
+    }
+  }
+
+  private async _sendProxyRequest(
+    method: string,
+    path: string,
+    body: string,
+    signal?: AbortSignal
+  ): Promise<ForwardedResponse> {
+    const proxyPayload: ProxyPayload = {
+      scope: 'customer',
+      metric_name: '',
+      target_url: `${this.ezthrottleUrl}${path}`,
+      method,
+      headers: { ...this.telemetry.traceContext(), ...(body ? { 'Content-Type': 'application/json' } : {}) },
+      body,
+    };
+
+    const response = await this._postProxy(proxyPayload, signal);
+    const requestId = response.headers.get('x-request-id');
+
+    if (response.status === 429) {
+      const errorData = parseJson(await response.text()) || {};
+      throw new RateLimitError(
+        `Rate limited: ${errorData.error || 'Unknown error'}`,
+        retryAtFrom(errorData, response.headers.get('retry-after')),
+        { requestId }
+      );
+    }
+
+    if (response.status === 401 || response.status === 403) {
+      const text = await response.text();
+      throw new AuthenticationError(`Authentication failed: ${text || 'invalid API key'}`, {
+        httpStatus: response.status,
+        requestId,
+      });
+    }
+
+    if (response.status !== 200) {
+      const text = await response.text();
+      throw new EZThrottleError(`Proxy request failed: ${text}`, null, {
+        isRetryable: response.status >= 500,
+        httpStatus: response.status,
+        requestId,
+      });
+    }
+
+    const text = await response.text();
+    const proxyResponse = parseJson(text) as ProxyResponse | null;
+    if (!proxyResponse || typeof proxyResponse !== 'object') {
+      throw this.redactor.redactError(new EZThrottleError(`Invalid JSON from proxy: ${text}`, null, {
+        httpStatus: response.status,
+        requestId,
+      }));
+    }
+
+    if (proxyResponse.status !== 'allowed') {
+      throw new ProxyDeniedError(
+        `Request denied: ${proxyResponse.error || 'Unknown error'}`,
+        { requestId }
+      );
+    }
+
+    const forwarded = proxyResponse.forwarded_response || {} as Partial<ForwardedResponse>;
+    return { status_code: forwarded.status_code || 0, headers: forwarded.headers, body: forwarded.body, requestId };
+  }
+
+  /**
+   * Parse a forwarded JSON body
+   *
+   * @throws {EZThrottleError} If the body is not JSON (message redacted)
+   */
+  private _parseForwardedBody(forwarded: ForwardedResponse): any {
+    try {
+      return JSON.parse(forwarded.body || '{}');
+    } catch (error) {
+      throw this.redactor.redactError(new EZThrottleError(`Invalid JSON from EZThrottle: ${forwarded.body}`, null, {
+        httpStatus: forwarded.status_code,
+        requestId: forwarded.requestId,
+        cause: error,
+      }));
+    }
+  }
+
+  /**
+   * Build the error for a non-2xx response forwarded from EZThrottle (message and body redacted)
+   */
+  private _forwardedError(
+    action: string,
+    forwarded: ForwardedResponse,
+    notFoundMessage?: string
+  ): EZThrottleError {
+    const details = { requestId: forwarded.requestId };
+
+    if (forwarded.status_code === 404) {
+      return new NotFoundError(notFoundMessage || `${action}: not found`, details);
+    }
+
+    if (forwarded.status_code === 429) {
+      const errorData = parseJson(forwarded.body) || {};
+      return this.redactor.redactError(new RateLimitError(
+        `${action}: rate limited: ${errorData.error || forwarded.body || 'Unknown error'}`,
+        retryAtFrom(errorData, headerValue(forwarded.headers, 'retry-after')),
+        details
+      ));
+    }
+
+    return this.redactor.redactError(new JobRejectedError(
+      `${action}: ${forwarded.body || 'Unknown error'}`,
+      forwarded.status_code,
+      parseJson(forwarded.body) ?? forwarded.body ?? null,
+      details
+    ));
+  }
+}
+
+function isSuccess(statusCode: number): boolean {
+  return statusCode >= 200 && statusCode < 300;
+}
+
+/**
+ * When a 429 may be retried: `retry_at` (ms) from the body, else Retry-After (seconds)
+ */
+function retryAtFrom(errorData: any, retryAfterSeconds: string | null | undefined): number | null {
+  if (typeof errorData.retry_at === 'number') return errorData.retry_at;
+  const seconds = parseInt(retryAfterSeconds || '', 10);
+  return Number.isNaN(seconds) ? null : Date.now() + seconds * 1000;
+}
+
+function headerValue(headers: Record<string, string> | undefined, name: string): string | undefined {
+  const entry = Object.entries(headers || {}).find(([header]) => header.toLowerCase() === name);
+  return entry ? entry[1] : undefined;
+}
+
+function parseJson(text: string | undefined): any {
+  if (!text) return null;
+  try {
+    return JSON.parse(text);
+  } catch {
+    return null;
+  }
 }
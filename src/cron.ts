@@ -0,0 +1,227 @@
+/**
+ * Five-field cron expressions (minute hour day-of-month month day-of-week),
+ * evaluated in any IANA timezone.
+ */
+
+import { ValidationError } from './errors';
+
+/**
+ * A parsed cron expression
+ */
+export interface CronExpression {
+  source: string;
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  /** 0 = Sunday (7 is accepted as Sunday too) */
+  daysOfWeek: Set<number>;
+  /** Day-of-month and day-of-week were both restricted: either may match (standard cron) */
+  matchEitherDay: boolean;
+}
+
+interface ZonedTime {
+  month: number;
+  day: number;
+  weekday: number;
+  hour: number;
+  minute: number;
+}
+
+const MACROS: Record<string, string> = {
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+  '@monthly': '0 0 1 * *',
+  '@weekly': '0 0 * * 0',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@hourly': '0 * * * *',
+};
+
+const MONTH_NAMES = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'];
+const DAY_NAMES = ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT'];
+
+// Longest gap parseCron() lets through: Feb 29, up to 8 years apart (2096 -> 2104)
+const SEARCH_LIMIT_MS = 9 * 366 * 24 * 60 * 60 * 1000;
+// Leap-year lengths: a day only has to exist in some year
+const DAYS_IN_MONTH = [31, 29, 31, 30, 31, 30, 31, 31, 30, 31, 30, 31];
+const MINUTE_MS = 60 * 1000;
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * Parse a cron expression: `*`, lists (`1,15`), ranges (`1-5`), steps
+ * (`*\/15`, `0-30/10`), month and weekday names (`JAN`, `MON-FRI`) and the
+ * macros `@yearly`, `@monthly`, `@weekly`, `@daily` and `@hourly`
+ *
+ * @throws {ValidationError} If the expression is malformed or can never fire (e.g. `0 0 30 2 *`)
+ */
+export function parseCron(expression: string): CronExpression {
+  const source = expression.trim();
+  const fields = (MACROS[source.toLowerCase()] || source).split(/\s+/);
+  if (fields.length !== 5) {
+    throw new ValidationError(`Invalid cron expression "${expression}": expected 5 fields, got ${fields.length}`);
+  }
+
+  const [minute, hour, dayOfMonth, month, dayOfWeek] = fields;
+  const daysOfWeek = parseField(expression, 'day of week', dayOfWeek, 0, 7, DAY_NAMES);
+  if (daysOfWeek.has(7)) {
+    daysOfWeek.delete(7);
+    daysOfWeek.add(0);
+  }
+
+  const cron: CronExpression = {
+    source,
+    minutes: parseField(expression, 'minute', minute, 0, 59),
+    hours: parseField(expression, 'hour', hour, 0, 23),
+    daysOfMonth: parseField(expression, 'day of month', dayOfMonth, 1, 31),
+    months: parseField(expression, 'month', month, 1, 12, MONTH_NAMES),
+    daysOfWeek,
+    matchEitherDay: !isWildcard(dayOfMonth) && !isWildcard(dayOfWeek),
+  };
+
+  // With matchEitherDay any weekday satisfies the day; otherwise the day of month must exist
+  const firstDay = Math.min(...cron.daysOfMonth);
+  if (!cron.matchEitherDay && !Array.from(cron.months).some(m => firstDay <= DAYS_IN_MONTH[m - 1])) {
+    throw new ValidationError(
+      `Invalid cron expression "${expression}": day of month ${dayOfMonth} never occurs in month ${month}`
+    );
+  }
+  return cron;
+}
+
+/**
+ * First time strictly after `after` (ms) matching `cron` in `timezone`
+ *
+ * Wall-clock times skipped by a DST change never match; times repeated by
+ * one match twice.
+ *
+ * @returns Timestamp in ms, or null if nothing matches within 9 years
+ * @throws {ValidationError} If `timezone` is not a valid IANA zone
+ */
+export function nextCronOccurrence(cron: CronExpression, after: number, timezone: string = 'UTC'): number | null {
+  const formatter = zonedFormatter(timezone);
+  const limit = after + SEARCH_LIMIT_MS;
+  let time = Math.floor(after / MINUTE_MS) * MINUTE_MS + MINUTE_MS;
+
+  while (time <= limit) {
+    const zoned = zonedTime(formatter, time);
+
+    // Skip to the day's last wall-clock hour (never past midnight, even on a
+    // 23-hour DST day), then hour by hour; zone offsets change on hour boundaries
+    if (!cron.months.has(zoned.month) || !matchesDay(cron, zoned)) {
+      const untilLastHour = (23 - zoned.hour) * 60 - zoned.minute;
+      time += (untilLastHour > 0 ? untilLastHour : 60 - zoned.minute) * MINUTE_MS;
+      continue;
+    }
+    if (!cron.hours.has(zoned.hour)) {
+      time += (60 - zoned.minute) * MINUTE_MS;
+      continue;
+    }
+    if (!cron.minutes.has(zoned.minute)) {
+      time += MINUTE_MS;
+      continue;
+    }
+    return time;
+  }
+  return null;
+}
+
+/**
+ * @throws {ValidationError} If `timezone` is not a valid IANA zone
+ */
+export function assertTimezone(timezone: string): void {
+  zonedFormatter(timezone);
+}
+
+function parseField(
+  expression: string,
+  name: string,
+  field: string,
+  min: number,
+  max: number,
+  names: string[] = []
+): Set<number> {
+  const values = new Set<number>();
+  const invalid = (reason: string) =>
+    new ValidationError(`Invalid cron expression "${expression}": ${name} ${reason}`);
+
+  for (const part of field.split(',')) {
+    const [range, stepText, ...rest] = part.split('/');
+    const step = stepText === undefined ? 1 : Number(stepText);
+    if (rest.length > 0 || !Number.isInteger(step) || step < 1) {
+      throw invalid(`has an invalid step in "${part}"`);
+    }
+
+    let start: number;
+    let end: number;
+    if (range === '*') {
+      start = min;
+      end = max;
+    } else {
+      const [from, to, ...extra] = range.split('-');
+      if (extra.length > 0) throw invalid(`has an invalid range "${range}"`);
+      start = parseValue(from, names, min);
+      end = to === undefined ? (stepText === undefined ? start : max) : parseValue(to, names, min);
+    }
+
+    if ([start, end].some(value => Number.isNaN(value) || value < min || value > max) || start > end) {
+      throw invalid(`must be between ${min} and ${max}, got "${part}"`);
+    }
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+  return values;
+}
+
+function parseValue(text: string, names: string[], min: number): number {
+  const index = names.indexOf(text.toUpperCase());
+  if (index !== -1) return index + min;
+  return /^\d+$/.test(text) ? Number(text) : NaN;
+}
+
+function isWildcard(field: string): boolean {
+  return field === '*' || field === '?';
+}
+
+function matchesDay(cron: CronExpression, zoned: ZonedTime): boolean {
+  const dayOfMonth = cron.daysOfMonth.has(zoned.day);
+  const dayOfWeek = cron.daysOfWeek.has(zoned.weekday);
+  return cron.matchEitherDay ? dayOfMonth || dayOfWeek : dayOfMonth && dayOfWeek;
+}
+
+function zonedFormatter(timezone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timezone);
+  if (!formatter) {
+    try {
+      formatter = new Intl.DateTimeFormat('en-US', {
+        timeZone: timezone,
+        hourCycle: 'h23',
+        month: 'numeric',
+        day: 'numeric',
+        weekday: 'short',
+        hour: 'numeric',
+        minute: 'numeric',
+      });
+    } catch {
+      throw new ValidationError(`Invalid timezone "${timezone}"`);
+    }
+    formatters.set(timezone, formatter);
+  }
+  return formatter;
+}
+
+function zonedTime(formatter: Intl.DateTimeFormat, time: number): ZonedTime {
+  const zoned: ZonedTime = { month: 0, day: 0, weekday: 0, hour: 0, minute: 0 };
+  for (const part of formatter.formatToParts(time)) {
+    switch (part.type) {
+      case 'month': zoned.month = Number(part.value); break;
+      case 'day': zoned.day = Number(part.value); break;
+      case 'weekday': zoned.weekday = DAY_NAMES.indexOf(part.value.toUpperCase()); break;
+      case 'hour': zoned.hour = Number(part.value); break;
+      case 'minute': zoned.minute = Number(part.value); break;
+    }
+  }
+  return zoned;
+}
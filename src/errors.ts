@@ -1,23 +1,157 @@
+import type { JobResponse, ValidationIssue } from './types';
+
+/**
+ * Extra context attached to SDK errors
+ */
+export interface EZThrottleErrorDetails {
+  /** Whether retrying the same call may succeed */
+  isRetryable?: boolean;
+  /** HTTP status that caused the error (proxy or forwarded EZThrottle status) */
+  httpStatus?: number | null;
+  /** Request ID from the proxy response, for support tickets */
+  requestId?: string | null;
+  /** Underlying error */
+  cause?: unknown;
+}
+
 export class EZThrottleError extends Error {
   retryAt: number | null;
+  isRetryable: boolean;
+  httpStatus: number | null;
+  requestId: string | null;
+  cause?: unknown;
 
-  constructor(message: string, retryAt: number | null = null) {
+  constructor(message: string, retryAt: number | null = null, details: EZThrottleErrorDetails = {}) {
     super(message);
     this.name = 'EZThrottleError';
     this.retryAt = retryAt;
+    this.isRetryable = details.isRetryable ?? false;
+    this.httpStatus = details.httpStatus ?? null;
+    this.requestId = details.requestId ?? null;
+    if (details.cause !== undefined) {
+      this.cause = details.cause;
+    }
   }
 }
 
-export class TimeoutError extends Error {
-  constructor(message: string) {
-    super(message);
+/**
+ * A wait (job polling, webhook correlation) ran out of time; the job may still finish
+ */
+export class TimeoutError extends EZThrottleError {
+  constructor(message: string, details: EZThrottleErrorDetails = {}) {
+    super(message, null, { ...details, isRetryable: false });
     this.name = 'TimeoutError';
   }
 }
 
+export class JobFailedError extends EZThrottleError {
+  jobId: string | null;
+  response: JobResponse | null;
+
+  constructor(message: string, jobId: string | null, response: JobResponse | null = null) {
+    super(message);
+    this.name = 'JobFailedError';
+    this.jobId = jobId;
+    this.response = response;
+  }
+}
+
 export class RateLimitError extends EZThrottleError {
-  constructor(message: string, retryAt: number) {
-    super(message, retryAt);
+  constructor(message: string, retryAt: number | null, details: EZThrottleErrorDetails = {}) {
+    super(message, retryAt, { httpStatus: 429, ...details, isRetryable: true });
     this.name = 'RateLimitError';
   }
 }
+
+/**
+ * TrackTags proxy refused to forward the request (status other than 'allowed')
+ */
+export class ProxyDeniedError extends EZThrottleError {
+  constructor(message: string, details: EZThrottleErrorDetails = {}) {
+    super(message, null, details);
+    this.name = 'ProxyDeniedError';
+  }
+}
+
+/**
+ * API key missing, invalid or not allowed to perform the call (401/403)
+ */
+export class AuthenticationError extends EZThrottleError {
+  constructor(message: string, details: EZThrottleErrorDetails = {}) {
+    super(message, null, { ...details, isRetryable: false });
+    this.name = 'AuthenticationError';
+  }
+}
+
+/**
+ * EZThrottle answered with a non-2xx status
+ */
+export class JobRejectedError extends EZThrottleError {
+  /** Status code forwarded from EZThrottle */
+  statusCode: number;
+  /** Forwarded response body, parsed as JSON when possible */
+  body: any;
+
+  constructor(message: string, statusCode: number, body: any, details: EZThrottleErrorDetails = {}) {
+    super(message, null, {
+      isRetryable: statusCode === 429 || statusCode >= 500,
+      httpStatus: statusCode,
+      ...details,
+    });
+    this.name = 'JobRejectedError';
+    this.statusCode = statusCode;
+    this.body = body;
+  }
+}
+
+/**
+ * The requested job or resource does not exist (forwarded 404)
+ */
+export class NotFoundError extends EZThrottleError {
+  constructor(message: string, details: EZThrottleErrorDetails = {}) {
+    super(message, null, { httpStatus: 404, ...details, isRetryable: false });
+    this.name = 'NotFoundError';
+  }
+}
+
+/**
+ * The proxy could not be reached (connection refused, DNS failure, reset, timeout)
+ */
+export class NetworkError extends EZThrottleError {
+  /** System error code from the underlying failure (e.g. ECONNREFUSED), if any */
+  code: string | null;
+
+  constructor(message: string, details: EZThrottleErrorDetails = {}) {
+    super(message, null, { ...details, isRetryable: true });
+    this.name = 'NetworkError';
+    this.code = (details.cause as { code?: string } | undefined)?.code ?? null;
+  }
+}
+
+/**
+ * Invalid arguments, rejected before any request is sent
+ */
+export class ValidationError extends EZThrottleError {
+  /** Step validation errors, with paths into the workflow tree */
+  issues: ValidationIssue[];
+
+  constructor(message: string, issues: ValidationIssue[] = [], details: EZThrottleErrorDetails = {}) {
+    super(message, null, { ...details, isRetryable: false });
+    this.name = 'ValidationError';
+    this.issues = issues;
+  }
+}
+
+/**
+ * The caller's AbortSignal fired; nothing further was started
+ */
+export class CancelledError extends EZThrottleError {
+  /** The signal's abort reason, if any */
+  reason: unknown;
+
+  constructor(message: string = 'Operation cancelled', reason?: unknown) {
+    super(message, null, { isRetryable: false });
+    this.name = 'CancelledError';
+    this.reason = reason;
+  }
+}
@@ -0,0 +1,118 @@
+/**
+ * Lifecycle hooks: observe where a workflow went (local, fallback, forwarded)
+ * and what the proxy returned.
+ */
+
+import type { FallbackTrigger } from './types';
+
+/**
+ * Payload for each lifecycle hook
+ */
+export interface HookEvents {
+  /** A FRUGAL step is about to call its target. `headers` may be modified. */
+  beforeLocalRequest: {
+    path: string;
+    url: string;
+    method: string;
+    headers: Record<string, string>;
+  };
+  /** A local request finished (or failed without a response) */
+  afterLocalResponse: {
+    path: string;
+    url: string;
+    method: string;
+    outcome: 'response' | 'timeout' | 'error' | 'busy';
+    status_code: number | null;
+    error?: unknown;
+    duration_ms: number;
+  };
+  /** A fallback matched the failure and is about to run */
+  fallbackTriggered: {
+    path: string;
+    url: string | null;
+    trigger: Partial<FallbackTrigger>;
+    /** What happened to the node being replaced */
+    failure: { url: string | null; kind: 'response' | 'timeout' | 'error' | 'busy'; status_code: number | null };
+  };
+  /** A workflow node was handed to EZThrottle */
+  forwarded: {
+    path: string;
+    url: string;
+    reason: 'performance' | 'local_queue_full' | 'retryable_failure';
+    job_id: string | null;
+  };
+  /** submitJob() created a job */
+  jobSubmitted: {
+    url: string;
+    job_id: string;
+    idempotent_key: string | null;
+    duration_ms: number;
+  };
+  /** The proxy answered 429 */
+  rateLimited: {
+    method: string;
+    path: string;
+    retryAt: number | null;
+  };
+  /** Any other proxy failure (network, auth, denied, 5xx) */
+  proxyError: {
+    method: string;
+    path: string;
+    error: unknown;
+  };
+}
+
+export type HookName = keyof HookEvents;
+
+/**
+ * Hook callbacks, keyed by hook name (EZThrottleConfig.hooks)
+ */
+export type EZThrottleHooks = {
+  [K in HookName]?: (event: HookEvents[K]) => void;
+};
+
+/**
+ * HookRegistry - Listeners per hook name
+ *
+ * Listener errors are swallowed: observing a request must never fail it.
+ */
+export class HookRegistry {
+  private listeners: Map<HookName, Set<(event: any) => void>>;
+
+  constructor(hooks: EZThrottleHooks = {}) {
+    this.listeners = new Map();
+    for (const name of Object.keys(hooks) as HookName[]) {
+      const listener = hooks[name];
+      if (listener) this.on(name, listener as (event: HookEvents[typeof name]) => void);
+    }
+  }
+
+  /**
+   * Add a listener
+   *
+   * @returns Function that removes the listener
+   */
+  on<K extends HookName>(name: K, listener: (event: HookEvents[K]) => void): () => void {
+    let set = this.listeners.get(name);
+    if (!set) {
+      set = new Set();
+      this.listeners.set(name, set);
+    }
+    set.add(listener);
+    return () => {
+      set!.delete(listener);
+    };
+  }
+
+  emit<K extends HookName>(name: K, event: HookEvents[K]): void {
+    const set = this.listeners.get(name);
+    if (!set) return;
+    for (const listener of set) {
+      try {
+        listener(event);
+      } catch {
+        // Hooks are observers only
+      }
+    }
+  }
+}
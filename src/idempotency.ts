@@ -0,0 +1,253 @@
+/**
+ * Client-side idempotency keys: the HASH strategy's key derivation, key
+ * templates and environment namespaces. Derived HASH keys are only used when
+ * the client sends them (sendIdempotentKeys, or a namespace); otherwise
+ * EZThrottle derives the key itself, with its own algorithm.
+ */
+
+import * as crypto from 'crypto';
+import { ValidationError } from './errors';
+import type { JobPayload, SubmitJobParams } from './types';
+
+/**
+ * Identifier of the canonical request format hashed by the HASH strategy.
+ * Changing the format needs a new identifier: keys sent by older SDKs would
+ * stop matching.
+ */
+export const IDEMPOTENCY_ALGORITHM = 'ezthrottle-idempotency-v1';
+
+/**
+ * Headers that differ between otherwise identical requests (credentials,
+ * tracing, transport) and are left out of the hash
+ */
+export const VOLATILE_HEADERS: ReadonlyArray<string> = [
+  'authorization',
+  'proxy-authorization',
+  'cookie',
+  'date',
+  'user-agent',
+  'content-length',
+  'traceparent',
+  'tracestate',
+  'baggage',
+  'x-request-id',
+  'x-correlation-id',
+];
+
+/**
+ * The request fields a key is derived from
+ */
+export interface IdempotencyInput {
+  url: string;
+  method?: string;
+  headers?: Record<string, string>;
+  body?: string;
+  /** Only used by templates */
+  metadata?: Record<string, any>;
+}
+
+/**
+ * Key derivation options
+ */
+export interface IdempotentKeyOptions {
+  /** Render this template instead of hashing, e.g. 'order:{metadata.orderId}' */
+  template?: string;
+  /** Prefix the key with `${namespace}:` (e.g. 'staging') */
+  namespace?: string | null;
+}
+
+/**
+ * Derive the idempotent key the SDK sends for IdempotentStrategy.HASH when
+ * the client has sendIdempotentKeys (or an idempotencyNamespace)
+ *
+ * The key is the SHA-256 (hex) of canonicalRequest(): method upper-cased,
+ * URL with lower-case scheme and host, no default port or fragment and
+ * sorted query parameters, headers with lower-case names minus
+ * VOLATILE_HEADERS, and JSON bodies re-serialized with sorted keys.
+ *
+ * @throws {ValidationError} If the URL is invalid or a template value is missing
+ *
+ * @example
+ * ```typescript
+ * const key = deriveIdempotentKey({ url: 'https://api.example.com/orders', method: 'POST', body });
+ * await db.saveAttempt(order.id, key);
+ * ```
+ */
+export function deriveIdempotentKey(
+  payload: IdempotencyInput,
+  { template, namespace }: IdempotentKeyOptions = {}
+): string {
+  const key = template ? renderIdempotentKey(template, payload) : hashRequest(payload);
+  return namespaceKey(key, namespace);
+}
+
+/**
+ * Canonical form of a request, as hashed by deriveIdempotentKey()
+ *
+ * Useful to debug why two requests do (or don't) share a key.
+ *
+ * @throws {ValidationError} If the URL is invalid
+ */
+export function canonicalRequest(payload: IdempotencyInput): string {
+  const headers = Object.entries(payload.headers || {})
+    .map(([name, value]): [string, string] => [name.trim().toLowerCase(), String(value).trim()])
+    .filter(([name]) => !VOLATILE_HEADERS.includes(name))
+    .sort(([a, av], [b, bv]) => compare(a, b) || compare(av, bv));
+
+  return JSON.stringify([
+    IDEMPOTENCY_ALGORITHM,
+    (payload.method || 'GET').toUpperCase(),
+    canonicalUrl(payload.url),
+    headers,
+    canonicalBody(payload.body),
+  ]);
+}
+
+/**
+ * Render a key template
+ *
+ * Placeholders: `{url}`, `{method}`, `{hash}` (the HASH strategy key),
+ * `{metadata.<path>}`, `{body.<path>}` (JSON bodies) and `{headers.<name>}`.
+ *
+ * @throws {ValidationError} If a placeholder is unknown or its value is missing
+ *
+ * @example
+ * ```typescript
+ * renderIdempotentKey('order:{metadata.orderId}:{body.attempt}', job); // 'order:42:1'
+ * ```
+ */
+export function renderIdempotentKey(template: string, payload: IdempotencyInput): string {
+  return template.replace(/\{([^{}]+)\}/g, (_, placeholder: string) => {
+    const name = placeholder.trim();
+    const [source, ...path] = name.split('.');
+    let value: unknown;
+
+    if (name === 'url') {
+      value = payload.url;
+    } else if (name === 'method') {
+      value = (payload.method || 'GET').toUpperCase();
+    } else if (name === 'hash') {
+      value = hashRequest(payload);
+    } else if (source === 'metadata' && path.length > 0) {
+      value = lookup(payload.metadata, path);
+    } else if (source === 'body' && path.length > 0) {
+      value = lookup(parseJson(payload.body), path);
+    } else if (source === 'headers' && path.length > 0) {
+      value = headerValue(payload.headers, path.join('.'));
+    } else {
+      throw templateError(template, `unknown placeholder {${name}}`);
+    }
+
+    if (value === undefined || value === null || value === '') {
+      throw templateError(template, `{${name}} has no value`);
+    }
+    return typeof value === 'object' ? canonicalJson(value) : String(value);
+  });
+}
+
+/**
+ * Give every job in a tree that has no key (HASH strategy) its
+ * deriveIdempotentKey(), so the key is known before submitting
+ */
+export function deriveJobKeys<T extends SubmitJobParams | JobPayload>(job: T): T {
+  return withJobKeys(job, node => node.idempotentKey || hashRequest(node));
+}
+
+/**
+ * Prefix every key in a job tree with `${namespace}:`
+ *
+ * Jobs without a key (HASH strategy) get the derived key, so the same
+ * request submitted from two environments never collides.
+ */
+export function namespaceJob<T extends SubmitJobParams | JobPayload>(job: T, namespace: string | null | undefined): T {
+  if (!namespace) return job;
+  return withJobKeys(job, node => namespaceKey(node.idempotentKey || hashRequest(node), namespace));
+}
+
+// Copy of a job tree with every node's key replaced by key(node)
+function withJobKeys<T extends SubmitJobParams | JobPayload>(job: T, key: (node: SubmitJobParams | JobPayload) => string): T {
+  const keyed: T = { ...job, idempotentKey: key(job) };
+  if (job.fallbackJob) keyed.fallbackJob = withJobKeys(job.fallbackJob, key);
+  if (job.onSuccess) keyed.onSuccess = withJobKeys(job.onSuccess, key);
+  if (job.onFailure) keyed.onFailure = withJobKeys(job.onFailure, key);
+  return keyed;
+}
+
+function namespaceKey(key: string, namespace: string | null | undefined): string {
+  return namespace ? `${namespace}:${key}` : key;
+}
+
+function hashRequest(payload: IdempotencyInput): string {
+  return crypto.createHash('sha256').update(canonicalRequest(payload)).digest('hex');
+}
+
+function canonicalUrl(url: string): string {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    throw new ValidationError(`Cannot derive an idempotent key: invalid URL "${url}"`);
+  }
+  // WHATWG URL already lower-cases scheme and host and drops default ports
+  parsed.hash = '';
+  parsed.searchParams.sort();
+  return parsed.toString();
+}
+
+function canonicalBody(body: string | undefined): string {
+  if (!body) return '';
+  const parsed = parseJson(body);
+  return parsed !== null && typeof parsed === 'object' ? canonicalJson(parsed) : body;
+}
+
+/**
+ * JSON with object keys sorted at every level
+ */
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(item => canonicalJson(item === undefined ? null : item)).join(',')}]`;
+  }
+  if (value !== null && typeof value === 'object') {
+    const entries = Object.keys(value)
+      .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+      .sort(compare)
+      .map(key => `${JSON.stringify(key)}:${canonicalJson((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+function parseJson(text: string | undefined): unknown {
+  if (!text) return undefined;
+  try {
+    return JSON.parse(text);
+  } catch {
+    return undefined;
+  }
+}
+
+function lookup(source: unknown, path: string[]): unknown {
+  let value = source;
+  for (const segment of path) {
+    if (value === null || typeof value !== 'object') return undefined;
+    value = (value as Record<string, unknown>)[segment];
+  }
+  return value;
+}
+
+function headerValue(headers: Record<string, string> | undefined, name: string): string | undefined {
+  const wanted = name.toLowerCase();
+  const entry = Object.entries(headers || {}).find(([header]) => header.toLowerCase() === wanted);
+  return entry ? entry[1] : undefined;
+}
+
+function templateError(template: string, reason: string): ValidationError {
+  return new ValidationError(`Invalid idempotent key template "${template}": ${reason}`);
+}
+
+/**
+ * Code-point order, independent of locale
+ */
+function compare(a: string, b: string): number {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
@@ -2,7 +2,7 @@
  * Idempotent key generation strategy
  */
 export enum IdempotentStrategy {
-  /** Backend generates deterministic hash - prevents duplicates (DEFAULT) */
+  /** Backend generates deterministic hash (or the SDK sends deriveIdempotentKey, see sendIdempotentKeys) - prevents duplicates (DEFAULT) */
   HASH = 'hash',
 
   /** SDK generates UUID - allows duplicates (polling, webhooks, scheduled jobs) */
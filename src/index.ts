@@ -1,18 +1,95 @@
 export { EZThrottle } from './client';
-export { EZThrottleError, TimeoutError, RateLimitError } from './errors';
-export { Step } from './step';
+export {
+  EZThrottleError,
+  TimeoutError,
+  RateLimitError,
+  JobFailedError,
+  ProxyDeniedError,
+  AuthenticationError,
+  JobRejectedError,
+  NotFoundError,
+  NetworkError,
+  ValidationError,
+  CancelledError
+} from './errors';
+export type { EZThrottleErrorDetails } from './errors';
+export { Step, STEP_DEFINITION_VERSION } from './step';
 export { StepType } from './stepType';
 export { IdempotentStrategy } from './idempotentStrategy';
 export * from './types';
 export { executeWithForwarding, withAutoForward } from './forward';
 export type { ForwardRequest } from './forward';
+export { createTransport } from './transport';
+export { withRetry, backoffDelay } from './retry';
+export type { BatchOptions, BatchItemResult, BatchReport } from './batch';
+export { HostRateLimiter } from './rateLimiter';
+export type { LocalRateLimitOptions, HostLimits } from './rateLimiter';
+export { Outbox, FileOutboxStore, MemoryOutboxStore } from './outbox';
+export type { OutboxEntry, OutboxAck, OutboxStore, OutboxOptions, DrainResult } from './outbox';
+export { encodeJobPayload, decodeJobPayload, WIRE_SCHEMA_VERSION } from './wire';
+export type { WireJobPayload } from './wire';
+export { HookRegistry } from './hooks';
+export type { HookEvents, HookName, EZThrottleHooks } from './hooks';
+export { Telemetry } from './telemetry';
+export type { TelemetryOptions, OpenTelemetryApiLike, SpanLike } from './telemetry';
+export { Redactor, createRedactingLogger, silentLogger } from './logger';
+export type { Logger, LogLevel, RedactOptions } from './logger';
+export { MetricsCollector } from './metrics';
+export type { MetricsOptions, MetricsSnapshot, HostMetrics, LatencyHistogram, QuotaEstimate, MeterLike } from './metrics';
+export { Scheduler, Schedule, nextOccurrences, occurrenceKey } from './scheduler';
+export type { ScheduleSpec, ScheduleOptions, AddScheduleOptions, SchedulerOptions, ScheduleInfo } from './scheduler';
+export { parseCron, nextCronOccurrence } from './cron';
+export type { CronExpression } from './cron';
+export {
+  deriveIdempotentKey,
+  canonicalRequest,
+  renderIdempotentKey,
+  namespaceJob,
+  deriveJobKeys,
+  IDEMPOTENCY_ALGORITHM,
+  VOLATILE_HEADERS,
+} from './idempotency';
+export type { IdempotencyInput, IdempotentKeyOptions } from './idempotency';
+export { SingleFlight, MemorySingleFlightStore } from './singleFlight';
+export type { SingleFlightOptions, SingleFlightStore } from './singleFlight';
+export type { Transport, TransportOptions, TransportRequest, TransportResponse, FetchLike } from './transport';
 export {
   verifyWebhookSignature,
   verifyWebhookSignatureStrict,
   tryVerifyWithSecrets,
+  signWebhookPayload,
+  parseSignatureHeader,
+  registerSignatureScheme,
   WebhookVerificationError,
   VerificationResult
 } from './webhookUtils';
+export type { SignatureScheme, SignatureHeader } from './webhookUtils';
+export { createWebhookHandler, parseWebhookEvent } from './webhookHandler';
+export {
+  verifyWebhookDelivery,
+  checkWebhookReplay,
+  forgetWebhookDelivery,
+  parseDelivery,
+  MemoryNonceStore,
+} from './webhookReplay';
+export type {
+  WebhookNonceStore,
+  DeliveryStatus,
+  SignedWebhookDelivery,
+  ReplayProtectionOptions,
+  VerifyDeliveryOptions,
+  DeliveryVerificationResult,
+} from './webhookReplay';
+export { WebhookCorrelator } from './webhookCorrelator';
+export type { WebhookCorrelatorOptions, CorrelationKeys, DeliveryOutcome } from './webhookCorrelator';
+export type {
+  WebhookEvent,
+  WebhookEventResponse,
+  WebhookHandler,
+  WebhookHandlerOptions,
+  WebhookHandlerResult,
+  WebhookDeliveryInfo
+} from './webhookHandler';
 
 // Default export for CommonJS compatibility
 import { EZThrottle } from './client';
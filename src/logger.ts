@@ -0,0 +1,190 @@
+/**
+ * Pluggable logging with secret redaction.
+ *
+ * The SDK is silent unless a logger is configured. Everything it logs, and
+ * the bodies and messages of errors thrown by the client, pass through a
+ * Redactor first, so API keys, Authorization headers and webhook secrets
+ * never reach your logs.
+ */
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+/**
+ * Level methods called as `logger.debug(message, context)`
+ *
+ * winston and console loggers fit as-is; for pino, which takes the context
+ * first, wrap it: `debug: (msg, ctx) => pino.debug(ctx, msg)`.
+ */
+export interface Logger {
+  debug(message: string, context?: Record<string, unknown>): void;
+  info(message: string, context?: Record<string, unknown>): void;
+  warn(message: string, context?: Record<string, unknown>): void;
+  error(message: string, context?: Record<string, unknown>): void;
+}
+
+/**
+ * Redaction configuration
+ */
+export interface RedactOptions {
+  /** Extra header/body field names to scrub (case-insensitive), e.g. ['card_number', 'ssn'] */
+  fields?: string[];
+  /** Literal secret values to scrub wherever they appear (the client adds its apiKey) */
+  secrets?: string[];
+  /** Replacement text (default: '[REDACTED]') */
+  replacement?: string;
+}
+
+/**
+ * Header and field names scrubbed by default, compared ignoring case, '-' and '_'
+ */
+const SENSITIVE_FIELDS = [
+  'authorization',
+  'proxy-authorization',
+  'cookie',
+  'set-cookie',
+  'x-api-key',
+  'api_key',
+  'apikey',
+  'x-ezthrottle-signature',
+  'secret',
+  'primary_secret',
+  'secondary_secret',
+  'webhook_secret',
+  'client_secret',
+  'password',
+  'token',
+  'access_token',
+  'refresh_token',
+];
+
+const BEARER_PATTERN = /\b(Bearer|Basic)\s+[A-Za-z0-9._~+/=-]+/g;
+
+const LEVELS: LogLevel[] = ['debug', 'info', 'warn', 'error'];
+
+/**
+ * Redactor - Scrubs secrets from values before they are logged or attached to errors
+ */
+export class Redactor {
+  private fields: Set<string>;
+  private secrets: string[];
+  private replacement: string;
+
+  constructor(options: RedactOptions = {}) {
+    this.fields = new Set([...SENSITIVE_FIELDS, ...(options.fields || [])].map(normalizeField));
+    // Longest first, so a secret containing another is replaced whole
+    this.secrets = (options.secrets || []).filter(Boolean).sort((a, b) => b.length - a.length);
+    this.replacement = options.replacement ?? '[REDACTED]';
+  }
+
+  /**
+   * Whether a header or body field is scrubbed
+   */
+  isSensitive(field: string): boolean {
+    return this.fields.has(normalizeField(field));
+  }
+
+  /**
+   * Redacted copy of `value`
+   *
+   * Objects are copied with sensitive fields replaced; strings holding JSON
+   * (request and response bodies) are scrubbed the same way; other strings
+   * have known secret values and Bearer/Basic credentials replaced.
+   */
+  redact<V>(value: V): V {
+    return this._redact(value, new WeakSet()) as V;
+  }
+
+  /**
+   * Scrub an error's message and attached body in place
+   *
+   * @returns The same error
+   */
+  redactError<E>(error: E): E {
+    if (!(error instanceof Error)) return error;
+
+    error.message = this.redactString(error.message);
+    if (error.stack) error.stack = this.redactString(error.stack);
+
+    const withBody = error as Error & { body?: unknown; response?: unknown };
+    if (withBody.body !== undefined) withBody.body = this.redact(withBody.body);
+    if (withBody.response !== undefined && withBody.response !== null) withBody.response = this.redact(withBody.response);
+    return error;
+  }
+
+  private redactString(text: string): string {
+    const trimmed = text.trim();
+    if (trimmed.startsWith('{') || trimmed.startsWith('[')) {
+      try {
+        return JSON.stringify(this._redact(JSON.parse(trimmed), new WeakSet()));
+      } catch {
+        // Not JSON, scrub as text
+      }
+    }
+
+    let redacted = text.replace(BEARER_PATTERN, `$1 ${this.replacement}`);
+    for (const secret of this.secrets) {
+      redacted = redacted.split(secret).join(this.replacement);
+    }
+    return redacted;
+  }
+
+  private _redact(value: unknown, seen: WeakSet<object>): unknown {
+    if (typeof value === 'string') return this.redactString(value);
+    if (value === null || typeof value !== 'object') return value;
+    if (value instanceof Error) {
+      return { name: value.name, message: this.redactString(value.message) };
+    }
+    if (seen.has(value)) return '[Circular]';
+    seen.add(value);
+
+    if (Array.isArray(value)) {
+      return value.map(item => this._redact(item, seen));
+    }
+
+    const copy: Record<string, unknown> = {};
+    for (const [key, field] of Object.entries(value)) {
+      copy[key] = this.isSensitive(key) && field !== undefined && field !== null
+        ? this.replacement
+        : this._redact(field, seen);
+    }
+    return copy;
+  }
+}
+
+/**
+ * Logger that does nothing (the default)
+ */
+export const silentLogger: Logger = {
+  debug() {},
+  info() {},
+  warn() {},
+  error() {},
+};
+
+/**
+ * Wrap a logger so every context object is redacted before it is written
+ *
+ * Missing level methods are ignored, and logger errors are swallowed.
+ */
+export function createRedactingLogger(logger: Partial<Logger> | undefined, redactor: Redactor): Logger {
+  if (!logger) return silentLogger;
+
+  const redacting = {} as Logger;
+  for (const level of LEVELS) {
+    const write = logger[level];
+    redacting[level] = typeof write !== 'function'
+      ? () => {}
+      : (message, context) => {
+          try {
+            write.call(logger, message, context === undefined ? undefined : redactor.redact(context));
+          } catch {
+            // Logging must never fail a request
+          }
+        };
+  }
+  return redacting;
+}
+
+function normalizeField(field: string): string {
+  return field.toLowerCase().replace(/[-_]/g, '');
+}
@@ -0,0 +1,316 @@
+/**
+ * Built-in metrics: how many requests FRUGAL kept local, how many went to
+ * EZThrottle (and why), fallback and rate-limit counts, and submit latency,
+ * per target host.
+ */
+
+import type { HookRegistry } from './hooks';
+import type { JobPayload, StepTraceEntry, SubmitJobParams } from './types';
+
+type ForwardReason = NonNullable<StepTraceEntry['reason']>;
+type Attributes = Record<string, string>;
+
+/**
+ * The parts of an OpenTelemetry Meter the bridge uses
+ * (`api.metrics.getMeter('ezthrottle')`)
+ */
+export interface MeterLike {
+  createCounter(name: string, options?: { description?: string; unit?: string }): {
+    add(value: number, attributes?: Attributes): void;
+  };
+  createHistogram(name: string, options?: { description?: string; unit?: string }): {
+    record(value: number, attributes?: Attributes): void;
+  };
+}
+
+/**
+ * Metrics configuration
+ */
+export interface MetricsOptions {
+  /** Submit latency histogram bucket bounds in milliseconds (default: 10ms to 10s) */
+  latencyBucketsMs?: number[];
+  /** Also record every measurement on these OpenTelemetry instruments */
+  meter?: MeterLike;
+}
+
+/**
+ * Cumulative latency histogram (Prometheus-style `le` buckets, the last one Infinity)
+ */
+export interface LatencyHistogram {
+  buckets: Array<{ le: number; count: number }>;
+  count: number;
+  sum_ms: number;
+}
+
+/**
+ * Counters for one target host
+ */
+export interface HostMetrics {
+  /** FRUGAL requests that succeeded locally (never billed) */
+  local_successes: number;
+  /** Local failures by status code, or 'timeout' / 'error' / 'busy' */
+  local_failures: Record<string, number>;
+  /** Fallbacks triggered by a failure of this host */
+  fallbacks_triggered: number;
+  /** Workflow nodes handed to EZThrottle, by reason */
+  forwarded: Record<ForwardReason, number>;
+  /** Job submissions rejected by the proxy with 429 */
+  rate_limited: number;
+  /** Time to create a job (including client retries) */
+  submit_latency: LatencyHistogram;
+}
+
+/**
+ * Estimated usage of the EZThrottle quota
+ *
+ * Each submitted job costs at least one request per region it fans out to
+ * (`min_requests`). `max_requests` is the upper bound: every node of the
+ * tree runs in each of its regions and uses up its retryPolicy's retries
+ * and reroutes. Nodes without a retryPolicy count one attempt per region
+ * (EZThrottle's default policy isn't known to the SDK).
+ */
+export interface QuotaEstimate {
+  jobs_submitted: number;
+  min_requests: number;
+  max_requests: number;
+  /** Requests that completed locally instead */
+  local_requests: number;
+}
+
+/**
+ * Point-in-time copy of all metrics
+ */
+export interface MetricsSnapshot {
+  /** When collection started (or was last reset), in ms */
+  since: number;
+  taken_at: number;
+  hosts: Record<string, HostMetrics>;
+  quota: QuotaEstimate;
+}
+
+const DEFAULT_BUCKETS_MS = [10, 25, 50, 100, 250, 500, 1000, 2500, 5000, 10000];
+
+/**
+ * MetricsCollector - Per-host counters fed by the client's lifecycle hooks
+ */
+export class MetricsCollector {
+  private bucketsMs: number[];
+  private instruments: ReturnType<typeof createInstruments> | null;
+  private hosts: Map<string, HostMetrics>;
+  private quota: QuotaEstimate;
+  private since: number;
+
+  constructor(options: MetricsOptions = {}) {
+    this.bucketsMs = [...(options.latencyBucketsMs || DEFAULT_BUCKETS_MS)].sort((a, b) => a - b);
+    this.instruments = options.meter ? createInstruments(options.meter) : null;
+    this.hosts = new Map();
+    this.quota = emptyQuota();
+    this.since = Date.now();
+  }
+
+  /**
+   * Record local requests, fallbacks and forwards from a client's hooks
+   *
+   * @returns Function that stops observing
+   */
+  observe(hooks: HookRegistry): () => void {
+    const unsubscribe = [
+      hooks.on('afterLocalResponse', e => this.recordLocal(e.url, e.outcome, e.status_code)),
+      hooks.on('fallbackTriggered', e => this.recordFallback(e.failure.url)),
+      hooks.on('forwarded', e => this.recordForward(e.url, e.reason)),
+    ];
+    return () => unsubscribe.forEach(off => off());
+  }
+
+  recordLocal(url: string, outcome: 'response' | 'timeout' | 'error' | 'busy', statusCode: number | null): void {
+    const host = hostOf(url);
+    const metrics = this.host(host);
+
+    if (outcome === 'response' && statusCode !== null && statusCode >= 200 && statusCode < 300) {
+      metrics.local_successes++;
+      this.quota.local_requests++;
+      this.instruments?.localSuccesses.add(1, { host });
+      return;
+    }
+
+    const key = outcome === 'response' ? String(statusCode) : outcome;
+    metrics.local_failures[key] = (metrics.local_failures[key] || 0) + 1;
+    this.instruments?.localFailures.add(1, { host, status: key });
+  }
+
+  recordFallback(url: string | null): void {
+    const host = hostOf(url);
+    this.host(host).fallbacks_triggered++;
+    this.instruments?.fallbacks.add(1, { host });
+  }
+
+  recordForward(url: string, reason: ForwardReason): void {
+    const host = hostOf(url);
+    this.host(host).forwarded[reason]++;
+    this.instruments?.forwards.add(1, { host, reason });
+  }
+
+  recordRateLimited(url: string): void {
+    const host = hostOf(url);
+    this.host(host).rate_limited++;
+    this.instruments?.rateLimited.add(1, { host });
+  }
+
+  /**
+   * Record a created job: submit latency and its quota cost
+   */
+  recordSubmit(job: SubmitJobParams | JobPayload, durationMs: number): void {
+    const host = hostOf(job.url);
+    const histogram = this.host(host).submit_latency;
+    histogram.count++;
+    histogram.sum_ms += durationMs;
+    for (const bucket of histogram.buckets) {
+      if (durationMs <= bucket.le) bucket.count++;
+    }
+
+    this.quota.jobs_submitted++;
+    this.quota.min_requests += regionRuns(job);
+    this.quota.max_requests += maxRequests(job);
+
+    this.instruments?.submitLatency.record(durationMs, { host });
+    this.instruments?.jobsSubmitted.add(1, { host });
+  }
+
+  /**
+   * Copy of the current metrics
+   */
+  snapshot(): MetricsSnapshot {
+    const hosts: Record<string, HostMetrics> = {};
+    for (const [host, metrics] of this.hosts) {
+      hosts[host] = {
+        ...metrics,
+        local_failures: { ...metrics.local_failures },
+        forwarded: { ...metrics.forwarded },
+        submit_latency: {
+          ...metrics.submit_latency,
+          buckets: metrics.submit_latency.buckets.map(bucket => ({ ...bucket })),
+        },
+      };
+    }
+    return { since: this.since, taken_at: Date.now(), hosts, quota: { ...this.quota } };
+  }
+
+  /**
+   * Prometheus text exposition format (version 0.0.4)
+   */
+  toPrometheus(prefix: string = 'ezthrottle'): string {
+    const snapshot = this.snapshot();
+    const entries = Object.entries(snapshot.hosts);
+    const lines: string[] = [];
+    const metric = (name: string, type: string, help: string, samples: string[]) => {
+      lines.push(`# HELP ${prefix}_${name} ${help}`, `# TYPE ${prefix}_${name} ${type}`, ...samples);
+    };
+
+    metric('local_successes_total', 'counter', 'FRUGAL requests that succeeded locally',
+      entries.map(([host, m]) => `${prefix}_local_successes_total${labels({ host })} ${m.local_successes}`));
+    metric('local_failures_total', 'counter', 'FRUGAL requests that failed locally, by status code or outcome',
+      entries.flatMap(([host, m]) => Object.entries(m.local_failures)
+        .map(([status, count]) => `${prefix}_local_failures_total${labels({ host, status })} ${count}`)));
+    metric('fallbacks_triggered_total', 'counter', 'Fallbacks triggered by a failure of the host',
+      entries.map(([host, m]) => `${prefix}_fallbacks_triggered_total${labels({ host })} ${m.fallbacks_triggered}`));
+    metric('forwarded_total', 'counter', 'Workflow nodes forwarded to EZThrottle, by reason',
+      entries.flatMap(([host, m]) => Object.entries(m.forwarded)
+        .map(([reason, count]) => `${prefix}_forwarded_total${labels({ host, reason })} ${count}`)));
+    metric('rate_limited_total', 'counter', 'Job submissions rejected with 429',
+      entries.map(([host, m]) => `${prefix}_rate_limited_total${labels({ host })} ${m.rate_limited}`));
+    metric('submit_duration_seconds', 'histogram', 'Time to create a job, including client retries',
+      entries.flatMap(([host, m]) => [
+        ...m.submit_latency.buckets.map(bucket =>
+          `${prefix}_submit_duration_seconds_bucket${labels({ host, le: bucket.le === Infinity ? '+Inf' : String(bucket.le / 1000) })} ${bucket.count}`),
+        `${prefix}_submit_duration_seconds_sum${labels({ host })} ${m.submit_latency.sum_ms / 1000}`,
+        `${prefix}_submit_duration_seconds_count${labels({ host })} ${m.submit_latency.count}`,
+      ]));
+    metric('quota_requests_min', 'gauge', 'Minimum requests counted against the EZThrottle quota',
+      [`${prefix}_quota_requests_min ${snapshot.quota.min_requests}`]);
+    metric('quota_requests_max', 'gauge', 'Maximum requests counted against the EZThrottle quota',
+      [`${prefix}_quota_requests_max ${snapshot.quota.max_requests}`]);
+
+    return lines.join('\n') + '\n';
+  }
+
+  /**
+   * Clear all counters (OpenTelemetry instruments are cumulative and keep their values)
+   */
+  reset(): void {
+    this.hosts.clear();
+    this.quota = emptyQuota();
+    this.since = Date.now();
+  }
+
+  private host(host: string): HostMetrics {
+    let metrics = this.hosts.get(host);
+    if (!metrics) {
+      metrics = {
+        local_successes: 0,
+        local_failures: {},
+        fallbacks_triggered: 0,
+        forwarded: { performance: 0, local_queue_full: 0, retryable_failure: 0 },
+        rate_limited: 0,
+        submit_latency: {
+          buckets: [...this.bucketsMs, Infinity].map(le => ({ le, count: 0 })),
+          count: 0,
+          sum_ms: 0,
+        },
+      };
+      this.hosts.set(host, metrics);
+    }
+    return metrics;
+  }
+}
+
+function createInstruments(meter: MeterLike) {
+  return {
+    localSuccesses: meter.createCounter('ezthrottle.local.successes', { description: 'FRUGAL requests that succeeded locally' }),
+    localFailures: meter.createCounter('ezthrottle.local.failures', { description: 'FRUGAL requests that failed locally' }),
+    fallbacks: meter.createCounter('ezthrottle.fallbacks', { description: 'Fallbacks triggered' }),
+    forwards: meter.createCounter('ezthrottle.forwarded', { description: 'Workflow nodes forwarded to EZThrottle' }),
+    rateLimited: meter.createCounter('ezthrottle.rate_limited', { description: 'Job submissions rejected with 429' }),
+    jobsSubmitted: meter.createCounter('ezthrottle.jobs.submitted', { description: 'Jobs created' }),
+    submitLatency: meter.createHistogram('ezthrottle.submit.duration', { description: 'Time to create a job', unit: 'ms' }),
+  };
+}
+
+function emptyQuota(): QuotaEstimate {
+  return { jobs_submitted: 0, min_requests: 0, max_requests: 0, local_requests: 0 };
+}
+
+/**
+ * Upper bound of requests a workflow tree can cost: every node runs in all
+ * its regions, with every retry and reroute its policy allows
+ */
+function maxRequests(job: SubmitJobParams | JobPayload): number {
+  const policy = job.retryPolicy || {};
+  const attempts = 1 + Math.max(0, policy.max_retries || 0) + Math.max(0, policy.max_reroutes || 0);
+  const regions = job.regions && job.regions.length > 0 ? job.regions.length : 1;
+  return attempts * regions
+    + (job.fallbackJob ? maxRequests(job.fallbackJob) : 0)
+    + (job.onSuccess ? maxRequests(job.onSuccess) : 0)
+    + (job.onFailure ? maxRequests(job.onFailure) : 0);
+}
+
+/**
+ * Requests one run of a job costs: fanout executes once per region
+ */
+function regionRuns(job: SubmitJobParams | JobPayload): number {
+  return job.executionMode === 'fanout' && job.regions && job.regions.length > 0 ? job.regions.length : 1;
+}
+
+function hostOf(url: string | null): string {
+  if (!url) return 'unknown';
+  try {
+    return new URL(url).host;
+  } catch {
+    return 'unknown';
+  }
+}
+
+function labels(values: Record<string, string>): string {
+  const pairs = Object.entries(values)
+    .map(([key, value]) => `${key}="${value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"')}"`);
+  return `{${pairs.join(',')}}`;
+}
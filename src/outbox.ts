@@ -0,0 +1,314 @@
+/**
+ * Durable outbox for job submissions made while EZThrottle is unreachable.
+ * Jobs are persisted with their idempotent key and replayed in the background.
+ */
+
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { EZThrottleError, NetworkError, RateLimitError } from './errors';
+import { JobCreated, SubmitJobParams } from './types';
+
+/**
+ * A submission waiting to be replayed
+ */
+export interface OutboxEntry {
+  id: string;
+  job: SubmitJobParams;
+  idempotentKey: string | null;
+  createdAt: number;
+  attempts: number;
+  nextAttemptAt: number;
+  lastError: string | null;
+}
+
+/**
+ * Returned by submitJob() instead of a job when the submission was outboxed
+ */
+export interface OutboxAck {
+  status: 'outboxed';
+  /** Not known until the entry is replayed */
+  job_id: null;
+  outbox_id: string;
+  idempotent_key: string | null;
+}
+
+/**
+ * Storage backend for outbox entries (implement for Redis, SQL, ...)
+ */
+export interface OutboxStore {
+  add(entry: OutboxEntry): Promise<void>;
+  list(): Promise<OutboxEntry[]>;
+  update(entry: OutboxEntry): Promise<void>;
+  remove(id: string): Promise<void>;
+}
+
+/**
+ * Outbox configuration
+ */
+export interface OutboxOptions {
+  /** Storage backend (default: FileOutboxStore at `path`) */
+  store?: OutboxStore;
+  /** File used by the default store (default: ./.ezthrottle-outbox.json) */
+  path?: string;
+  /** How often pending entries are checked in milliseconds (default: 5000) */
+  replayIntervalMs?: number;
+  /** First replay backoff in milliseconds (default: 1000) */
+  initialDelayMs?: number;
+  /** Maximum replay backoff in milliseconds (default: 60000) */
+  maxDelayMs?: number;
+  /** Called after an entry is replayed successfully */
+  onReplayed?: (entry: OutboxEntry, result: JobCreated) => void;
+  /** Called when an entry is dropped because EZThrottle rejected it (non-retryable errors only) */
+  onDropped?: (entry: OutboxEntry, error: unknown) => void;
+}
+
+/**
+ * Result of draining the outbox
+ */
+export interface DrainResult {
+  replayed: number;
+  dropped: number;
+  remaining: number;
+}
+
+/**
+ * Whether a submission error means EZThrottle was unreachable (and the job should be outboxed)
+ */
+export function isUnreachableError(error: unknown): boolean {
+  if (error instanceof NetworkError) return true;
+  return error instanceof EZThrottleError
+    && error.isRetryable
+    && error.httpStatus !== null
+    && error.httpStatus >= 500;
+}
+
+/**
+ * FileOutboxStore - Default store, one JSON file written atomically
+ */
+export class FileOutboxStore implements OutboxStore {
+  private filePath: string;
+  private queue: Promise<unknown>;
+
+  constructor(filePath: string = path.join(process.cwd(), '.ezthrottle-outbox.json')) {
+    this.filePath = filePath;
+    this.queue = Promise.resolve();
+  }
+
+  add(entry: OutboxEntry): Promise<void> {
+    return this.mutate(entries => [...entries, entry]);
+  }
+
+  list(): Promise<OutboxEntry[]> {
+    return this.serialize(() => this.read());
+  }
+
+  update(entry: OutboxEntry): Promise<void> {
+    return this.mutate(entries => entries.map(e => e.id === entry.id ? entry : e));
+  }
+
+  remove(id: string): Promise<void> {
+    return this.mutate(entries => entries.filter(e => e.id !== id));
+  }
+
+  private mutate(fn: (entries: OutboxEntry[]) => OutboxEntry[]): Promise<void> {
+    return this.serialize(async () => {
+      const entries = fn(await this.read());
+      const tmpPath = `${this.filePath}.${process.pid}.tmp`;
+      await fs.writeFile(tmpPath, JSON.stringify(entries));
+      await fs.rename(tmpPath, this.filePath);
+    });
+  }
+
+  private async read(): Promise<OutboxEntry[]> {
+    try {
+      return JSON.parse(await fs.readFile(this.filePath, 'utf-8'));
+    } catch (error) {
+      if ((error as { code?: string }).code === 'ENOENT') return [];
+      throw error;
+    }
+  }
+
+  // Run file operations one at a time so concurrent writes never interleave
+  private serialize<T>(fn: () => Promise<T>): Promise<T> {
+    const result = this.queue.then(fn);
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+}
+
+/**
+ * MemoryOutboxStore - Non-durable store, for tests and short-lived processes
+ */
+export class MemoryOutboxStore implements OutboxStore {
+  private entries: Map<string, OutboxEntry> = new Map();
+
+  async add(entry: OutboxEntry): Promise<void> {
+    this.entries.set(entry.id, entry);
+  }
+
+  async list(): Promise<OutboxEntry[]> {
+    return Array.from(this.entries.values());
+  }
+
+  async update(entry: OutboxEntry): Promise<void> {
+    this.entries.set(entry.id, entry);
+  }
+
+  async remove(id: string): Promise<void> {
+    this.entries.delete(id);
+  }
+}
+
+/**
+ * Outbox - Persists unreachable submissions and replays them with backoff
+ *
+ * Replays resend the stored payload unchanged, so the idempotent key keeps
+ * them duplicate-safe even if the original request did reach EZThrottle.
+ */
+export class Outbox {
+  private submit: (job: SubmitJobParams) => Promise<JobCreated>;
+  private store: OutboxStore;
+  private replayIntervalMs: number;
+  private initialDelayMs: number;
+  private maxDelayMs: number;
+  private onReplayed?: (entry: OutboxEntry, result: JobCreated) => void;
+  private onDropped?: (entry: OutboxEntry, error: unknown) => void;
+  private timer: NodeJS.Timeout | null;
+  private replaying: Promise<DrainResult> | null;
+
+  constructor(submit: (job: SubmitJobParams) => Promise<JobCreated>, options: OutboxOptions = {}) {
+    this.submit = submit;
+    this.store = options.store || new FileOutboxStore(options.path);
+    this.replayIntervalMs = options.replayIntervalMs ?? 5000;
+    this.initialDelayMs = options.initialDelayMs ?? 1000;
+    this.maxDelayMs = options.maxDelayMs ?? 60000;
+    this.onReplayed = options.onReplayed;
+    this.onDropped = options.onDropped;
+    this.timer = null;
+    this.replaying = null;
+
+    // Pick up entries left over from a previous process
+    this.start();
+  }
+
+  /**
+   * Persist a job that could not be submitted
+   */
+  async enqueue(job: SubmitJobParams, error?: unknown): Promise<OutboxAck> {
+    const now = Date.now();
+    const entry: OutboxEntry = {
+      id: `outbox_${uuidv4()}`,
+      job,
+      idempotentKey: job.idempotentKey || null,
+      createdAt: now,
+      attempts: 0,
+      nextAttemptAt: now + this.initialDelayMs,
+      lastError: error instanceof Error ? error.message : null,
+    };
+
+    await this.store.add(entry);
+    this.start();
+
+    return { status: 'outboxed', job_id: null, outbox_id: entry.id, idempotent_key: entry.idempotentKey };
+  }
+
+  /**
+   * Entries still waiting to be replayed
+   */
+  pending(): Promise<OutboxEntry[]> {
+    return this.store.list();
+  }
+
+  /**
+   * Replay everything now (ignoring backoff) until empty or `timeoutMs` passes.
+   * Use on graceful shutdown.
+   */
+  async drain({ timeoutMs = 30000 }: { timeoutMs?: number } = {}): Promise<DrainResult> {
+    const deadline = Date.now() + timeoutMs;
+    const total: DrainResult = { replayed: 0, dropped: 0, remaining: 0 };
+
+    for (;;) {
+      const result = await this.replay(true);
+      total.replayed += result.replayed;
+      total.dropped += result.dropped;
+      total.remaining = result.remaining;
+
+      const timeLeft = deadline - Date.now();
+      if (result.remaining === 0 || timeLeft <= 0) {
+        return total;
+      }
+      await new Promise(resolve => setTimeout(resolve, Math.min(this.replayIntervalMs, timeLeft)));
+    }
+  }
+
+  /**
+   * Start background replay (called automatically)
+   */
+  start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => {
+      this.replay(false).catch(() => undefined);
+    }, this.replayIntervalMs);
+    this.timer.unref();
+  }
+
+  /**
+   * Stop background replay; pending entries stay in the store
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * One replay pass over due entries (all entries when `force` is true)
+   */
+  private replay(force: boolean): Promise<DrainResult> {
+    if (!this.replaying) {
+      this.replaying = this.replayPass(force).finally(() => {
+        this.replaying = null;
+      });
+    }
+    return this.replaying;
+  }
+
+  private async replayPass(force: boolean): Promise<DrainResult> {
+    const entries = await this.store.list();
+    const result: DrainResult = { replayed: 0, dropped: 0, remaining: entries.length };
+
+    for (const entry of entries) {
+      if (!force && entry.nextAttemptAt > Date.now()) continue;
+
+      try {
+        const response = await this.submit(entry.job);
+        await this.store.remove(entry.id);
+        result.replayed++;
+        result.remaining--;
+        if (this.onReplayed) this.onReplayed(entry, response);
+      } catch (error) {
+        // Only a definitive rejection drops the job; 429s and outages keep it queued
+        if (!(error instanceof EZThrottleError && error.isRetryable)) {
+          await this.store.remove(entry.id);
+          result.dropped++;
+          result.remaining--;
+          if (this.onDropped) this.onDropped(entry, error);
+          continue;
+        }
+
+        entry.attempts++;
+        entry.lastError = error instanceof Error ? error.message : String(error);
+        const backoff = Date.now() + Math.min(this.maxDelayMs, this.initialDelayMs * Math.pow(2, entry.attempts));
+        entry.nextAttemptAt = error instanceof RateLimitError && error.retryAt ? error.retryAt : backoff;
+        await this.store.update(entry);
+
+        // Still unreachable or rate limited - no point trying the rest of the queue now
+        break;
+      }
+    }
+
+    return result;
+  }
+}
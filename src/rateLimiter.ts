@@ -0,0 +1,243 @@
+/**
+ * Per-host token bucket and concurrency limiter for FRUGAL local execution.
+ * Mirrors EZThrottle's server-side defaults and adapts to X-EZTHROTTLE-* headers.
+ */
+
+import { cancelledError, onAbort, throwIfAborted } from './abort';
+
+/**
+ * Local rate limit configuration
+ */
+export interface LocalRateLimitOptions {
+  /** Requests per second per host (default: 2) */
+  rps?: number;
+  /** Concurrent requests per host (default: 2) */
+  maxConcurrent?: number;
+  /** Bucket size; defaults to max(1, rps) so bursts stay near the rate */
+  burst?: number;
+  /** Forward to EZThrottle instead of waiting longer than this locally, in ms (default: 2000) */
+  maxWaitMs?: number;
+  /** Clock hook (default: Date.now) */
+  now?: () => number;
+  /** Sleep hook (default: setTimeout) */
+  sleep?: (ms: number) => Promise<void>;
+}
+
+/**
+ * Current limits for one host
+ */
+export interface HostLimits {
+  rps: number;
+  maxConcurrent: number;
+  active: number;
+  queued: number;
+}
+
+interface HostState {
+  rps: number;
+  capacity: number;
+  tokens: number;
+  lastRefill: number;
+  maxConcurrent: number;
+  active: number;
+  waiting: Array<(granted: boolean) => void>;
+}
+
+const defaultSleep = (ms: number): Promise<void> => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * HostRateLimiter - Paces local requests per target host
+ *
+ * acquire() resolves with a release function, or null if the request would
+ * wait longer than maxWaitMs (the caller should forward it to EZThrottle).
+ */
+export class HostRateLimiter {
+  private defaultRps: number;
+  private defaultMaxConcurrent: number;
+  private burst: number | null;
+  private maxWaitMs: number;
+  private now: () => number;
+  private sleep: (ms: number) => Promise<void>;
+  private hosts: Map<string, HostState>;
+
+  constructor({
+    rps = 2,
+    maxConcurrent = 2,
+    burst,
+    maxWaitMs = 2000,
+    now = Date.now,
+    sleep = defaultSleep,
+  }: LocalRateLimitOptions = {}) {
+    this.defaultRps = rps;
+    this.defaultMaxConcurrent = maxConcurrent;
+    this.burst = burst ?? null;
+    this.maxWaitMs = maxWaitMs;
+    this.now = now;
+    this.sleep = sleep;
+    this.hosts = new Map();
+  }
+
+  /**
+   * Reserve a concurrency slot and a token for `host`.
+   *
+   * @returns Release function to call when the request finishes, or null if
+   * the request should be forwarded instead of waiting
+   * @throws {CancelledError} If `signal` fires while waiting (nothing stays reserved)
+   */
+  async acquire(host: string, signal?: AbortSignal): Promise<(() => void) | null> {
+    throwIfAborted(signal);
+    const state = this.getState(host);
+    const startedAt = this.now();
+
+    if (!(await this.acquireSlot(state, this.maxWaitMs, signal))) {
+      return null;
+    }
+
+    let released = false;
+    const release = () => {
+      if (released) return;
+      released = true;
+      state.active--;
+      this.drain(state);
+    };
+
+    this.refill(state);
+    const tokenWaitMs = state.tokens >= 1 ? 0 : Math.ceil(((1 - state.tokens) / state.rps) * 1000);
+    if (this.now() - startedAt + tokenWaitMs > this.maxWaitMs) {
+      release();
+      return null;
+    }
+
+    state.tokens -= 1;
+    if (tokenWaitMs > 0) {
+      try {
+        await unlessAborted(this.sleep(tokenWaitMs), signal);
+      } catch (error) {
+        state.tokens += 1;
+        release();
+        throw error;
+      }
+    }
+    return release;
+  }
+
+  /**
+   * Adapt a host's limits from X-EZTHROTTLE-RPS / X-EZTHROTTLE-MAX-CONCURRENT response headers
+   */
+  update(host: string, headers: { get(name: string): string | null }): void {
+    const state = this.getState(host);
+
+    const rps = parseFloat(headers.get('x-ezthrottle-rps') || '');
+    if (rps > 0) {
+      this.refill(state);
+      state.rps = rps;
+      state.capacity = this.burst ?? Math.max(1, rps);
+      state.tokens = Math.min(state.tokens, state.capacity);
+    }
+
+    const maxConcurrent = parseInt(headers.get('x-ezthrottle-max-concurrent') || '', 10);
+    if (maxConcurrent > 0) {
+      state.maxConcurrent = maxConcurrent;
+      this.drain(state);
+    }
+  }
+
+  /**
+   * Current limits and load for a host
+   */
+  limits(host: string): HostLimits {
+    const state = this.getState(host);
+    return {
+      rps: state.rps,
+      maxConcurrent: state.maxConcurrent,
+      active: state.active,
+      queued: state.waiting.length,
+    };
+  }
+
+  private getState(host: string): HostState {
+    let state = this.hosts.get(host);
+    if (!state) {
+      const capacity = this.burst ?? Math.max(1, this.defaultRps);
+      state = {
+        rps: this.defaultRps,
+        capacity,
+        tokens: capacity,
+        lastRefill: this.now(),
+        maxConcurrent: this.defaultMaxConcurrent,
+        active: 0,
+        waiting: [],
+      };
+      this.hosts.set(host, state);
+    }
+    return state;
+  }
+
+  private refill(state: HostState): void {
+    const now = this.now();
+    const elapsedSeconds = (now - state.lastRefill) / 1000;
+    state.tokens = Math.min(state.capacity, state.tokens + elapsedSeconds * state.rps);
+    state.lastRefill = now;
+  }
+
+  private acquireSlot(state: HostState, maxWaitMs: number, signal?: AbortSignal): Promise<boolean> {
+    if (state.active < state.maxConcurrent && state.waiting.length === 0) {
+      state.active++;
+      return Promise.resolve(true);
+    }
+    if (maxWaitMs <= 0) {
+      return Promise.resolve(false);
+    }
+
+    return new Promise((resolve, reject) => {
+      let removeAbortListener = () => {};
+      const leave = () => {
+        const index = state.waiting.indexOf(waiter);
+        if (index !== -1) state.waiting.splice(index, 1);
+      };
+      const waiter = (granted: boolean) => {
+        clearTimeout(timer);
+        removeAbortListener();
+        resolve(granted);
+      };
+      const timer = setTimeout(() => {
+        leave();
+        removeAbortListener();
+        resolve(false);
+      }, maxWaitMs);
+      state.waiting.push(waiter);
+      removeAbortListener = onAbort(signal, () => {
+        clearTimeout(timer);
+        leave();
+        reject(cancelledError(signal!));
+      });
+    });
+  }
+
+  private drain(state: HostState): void {
+    while (state.active < state.maxConcurrent && state.waiting.length > 0) {
+      state.active++;
+      state.waiting.shift()!(true);
+    }
+  }
+}
+
+/**
+ * `promise`, or a CancelledError as soon as `signal` fires
+ */
+function unlessAborted<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) return promise;
+  return new Promise((resolve, reject) => {
+    const removeListener = onAbort(signal, () => reject(cancelledError(signal)));
+    promise.then(
+      value => {
+        removeListener();
+        resolve(value);
+      },
+      error => {
+        removeListener();
+        reject(error);
+      }
+    );
+  });
+}
@@ -0,0 +1,68 @@
+/**
+ * Client-side retry for job submission.
+ * Exponential backoff with jitter that never retries before RateLimitError.retryAt.
+ */
+
+import { CancelledError, EZThrottleError, RateLimitError } from './errors';
+import { SubmitRetryOptions } from './types';
+import { abortableSleep, throwIfAborted } from './abort';
+
+/**
+ * Backoff delay before retry number `attempt` (1-based), before jitter
+ */
+export function backoffDelay(attempt: number, options: SubmitRetryOptions = {}): number {
+  const { initialDelayMs = 500, maxDelayMs = 30000, multiplier = 2 } = options;
+  return Math.min(maxDelayMs, initialDelayMs * Math.pow(multiplier, attempt - 1));
+}
+
+/**
+ * Run `fn`, retrying retryable failures according to the policy.
+ *
+ * The same call is repeated verbatim, so a submission keeps its idempotent key
+ * and retries can never create a duplicate job.
+ *
+ * @throws The last error if it is not retryable or attempts are exhausted
+ * @throws {CancelledError} If `signal` fires before or between attempts
+ */
+export async function withRetry<T>(
+  fn: () => Promise<T>,
+  options: SubmitRetryOptions = {},
+  signal?: AbortSignal
+): Promise<T> {
+  const {
+    maxAttempts = 1,
+    maxDelayMs = 30000,
+    jitter = true,
+    shouldRetry = (error: unknown) => error instanceof EZThrottleError && error.isRetryable,
+    sleep = (ms: number) => abortableSleep(ms, signal),
+    now = Date.now,
+    random = Math.random,
+  } = options;
+
+  for (let attempt = 1; ; attempt++) {
+    throwIfAborted(signal);
+    try {
+      return await fn();
+    } catch (error) {
+      if (error instanceof CancelledError || attempt >= maxAttempts || !shouldRetry(error, attempt)) {
+        throw error;
+      }
+
+      let delay = backoffDelay(attempt, options);
+      if (jitter) {
+        delay = Math.floor(random() * delay);
+      }
+
+      // Never retry before the proxy says we may; give up if that is too far away
+      if (error instanceof RateLimitError && error.retryAt) {
+        const untilRetryAt = error.retryAt - now();
+        if (untilRetryAt > maxDelayMs) {
+          throw error;
+        }
+        delay = Math.max(delay, untilRetryAt);
+      }
+
+      await sleep(delay);
+    }
+  }
+}
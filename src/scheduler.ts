@@ -0,0 +1,452 @@
+/**
+ * Recurring jobs. A schedule expands into future submissions that EZThrottle
+ * holds until their retryAt, each with a deterministic per-occurrence
+ * idempotent key, so a restarted process re-submitting the same occurrences
+ * never double-schedules them.
+ */
+
+import { createHash } from 'crypto';
+import { ValidationError } from './errors';
+import { CronExpression, assertTimezone, nextCronOccurrence, parseCron } from './cron';
+import type { EZThrottle } from './client';
+import type { Step } from './step';
+import type { SubmitJobResult } from './types';
+
+/**
+ * A cron expression, or an object form
+ */
+export type ScheduleSpec = string | ScheduleOptions;
+
+/**
+ * Object form of a schedule: exactly one of `cron` or `every`
+ */
+export interface ScheduleOptions {
+  /** Five-field cron expression, evaluated in `timezone` */
+  cron?: string;
+  /** Fixed interval in ms, or a duration such as '30s', '15m', '6h', '1d' */
+  every?: number | string;
+  /**
+   * First occurrence for `every` (default: aligned to the Unix epoch, e.g.
+   * every '15m' runs at :00, :15, :30, :45); no occurrence before it for `cron`
+   */
+  startAt?: number | Date | string;
+  /** No occurrence after this time */
+  endAt?: number | Date | string;
+  /** IANA timezone for cron fields (default: 'UTC') */
+  timezone?: string;
+}
+
+/**
+ * Step.schedule() options
+ */
+export interface AddScheduleOptions {
+  /**
+   * Stable schedule ID, also the idempotent key prefix when the step has no
+   * idempotentKey (default: a hash of the step definition and spec)
+   */
+  id?: string;
+}
+
+/**
+ * Scheduler configuration (EZThrottleConfig.scheduler)
+ */
+export interface SchedulerOptions {
+  /** How far ahead occurrences are submitted in ms (default: 900000, 15 minutes) */
+  horizonMs?: number;
+  /** How often the horizon is topped up in ms (default: 60000) */
+  tickMs?: number;
+  /** Most occurrences submitted per schedule per tick (default: 100) */
+  maxPerTick?: number;
+  /** Called after each occurrence is submitted */
+  onSubmitted?: (schedule: ScheduleInfo, occurrence: number, result: SubmitJobResult) => void;
+  /** Called when an occurrence could not be submitted (it is retried next tick while still in the future) */
+  onError?: (schedule: ScheduleInfo, occurrence: number, error: unknown) => void;
+}
+
+/**
+ * State of a schedule, as returned by list()
+ */
+export interface ScheduleInfo {
+  id: string;
+  /** e.g. 'cron "0 9 * * MON-FRI" (Europe/Paris)' or 'every 15m' */
+  description: string;
+  status: 'active' | 'paused' | 'ended';
+  /** Next occurrence not yet submitted, in ms */
+  next_run_at: number | null;
+  /** Latest occurrence submitted, in ms */
+  last_submitted_at: number | null;
+  last_job_id: string | null;
+  submitted: number;
+  last_error: string | null;
+}
+
+type NormalizedSpec =
+  | { kind: 'cron'; cron: CronExpression; timezone: string; startAt: number | null; endAt: number | null }
+  | { kind: 'every'; everyMs: number; everyText: string; startAt: number; endAt: number | null };
+
+interface ScheduleState {
+  id: string;
+  step: Step<any>;
+  spec: NormalizedSpec;
+  keyPrefix: string;
+  paused: boolean;
+  /** Latest occurrence submitted (or skipped while paused) */
+  cursor: number;
+  info: ScheduleInfo;
+}
+
+const DURATION_UNITS: Record<string, number> = { ms: 1, s: 1000, m: 60000, h: 3600000, d: 86400000 };
+
+/**
+ * Parse and validate a schedule spec
+ *
+ * @throws {ValidationError} If the spec is malformed
+ */
+function normalizeSpec(spec: ScheduleSpec): NormalizedSpec {
+  const options: ScheduleOptions = typeof spec === 'string' ? { cron: spec } : spec;
+  if ((options.cron === undefined) === (options.every === undefined)) {
+    throw new ValidationError('Schedule needs exactly one of cron or every');
+  }
+
+  const startAt = options.startAt === undefined ? null : toTimestamp(options.startAt, 'startAt');
+  const endAt = options.endAt === undefined ? null : toTimestamp(options.endAt, 'endAt');
+  if (startAt !== null && endAt !== null && endAt < startAt) {
+    throw new ValidationError('Schedule endAt is before startAt');
+  }
+
+  if (options.cron !== undefined) {
+    const timezone = options.timezone || 'UTC';
+    assertTimezone(timezone);
+    return { kind: 'cron', cron: parseCron(options.cron), timezone, startAt, endAt };
+  }
+
+  const every = options.every!;
+  return {
+    kind: 'every',
+    everyMs: parseDuration(every),
+    everyText: typeof every === 'number' ? `${every}ms` : every,
+    startAt: startAt ?? 0,
+    endAt,
+  };
+}
+
+/**
+ * The next `count` occurrences strictly after `after` (default: now)
+ *
+ * @throws {ValidationError} If the spec is malformed
+ *
+ * @example
+ * ```typescript
+ * nextOccurrences({ cron: '0 9 * * MON-FRI', timezone: 'America/New_York' }, { count: 3 })
+ *   .map(t => new Date(t).toISOString());
+ * ```
+ */
+export function nextOccurrences(
+  spec: ScheduleSpec,
+  { after = Date.now(), count = 1 }: { after?: number; count?: number } = {}
+): number[] {
+  const normalized = normalizeSpec(spec);
+  const occurrences: number[] = [];
+  let cursor = after;
+  while (occurrences.length < count) {
+    const next = nextOccurrence(normalized, cursor);
+    if (next === null) break;
+    occurrences.push(next);
+    cursor = next;
+  }
+  return occurrences;
+}
+
+/**
+ * Idempotent key of one occurrence: `<prefix>@<ISO time>`
+ */
+export function occurrenceKey(prefix: string, occurrence: number): string {
+  return `${prefix}@${new Date(occurrence).toISOString()}`;
+}
+
+function nextOccurrence(spec: NormalizedSpec, after: number): number | null {
+  let next: number | null;
+  if (spec.kind === 'every') {
+    next = after < spec.startAt
+      ? spec.startAt
+      : spec.startAt + (Math.floor((after - spec.startAt) / spec.everyMs) + 1) * spec.everyMs;
+  } else {
+    const from = spec.startAt !== null && spec.startAt - 1 > after ? spec.startAt - 1 : after;
+    next = nextCronOccurrence(spec.cron, from, spec.timezone);
+  }
+  return next !== null && (spec.endAt === null || next <= spec.endAt) ? next : null;
+}
+
+/**
+ * Handle for one schedule
+ */
+export class Schedule {
+  readonly id: string;
+  private scheduler: Scheduler;
+
+  constructor(scheduler: Scheduler, id: string) {
+    this.scheduler = scheduler;
+    this.id = id;
+  }
+
+  /** Stop submitting new occurrences */
+  pause(): void {
+    this.scheduler.pause(this.id);
+  }
+
+  /** Continue from the next future occurrence (occurrences missed while paused are skipped) */
+  resume(): void {
+    this.scheduler.resume(this.id);
+  }
+
+  /** Remove the schedule */
+  cancel(): void {
+    this.scheduler.remove(this.id);
+  }
+
+  info(): ScheduleInfo | null {
+    return this.scheduler.get(this.id);
+  }
+}
+
+/**
+ * Scheduler - Keeps a rolling horizon of upcoming occurrences submitted
+ *
+ * Each occurrence is submitted as a job with `retryAt` set to its time, so
+ * EZThrottle runs it on schedule even if this process is down by then. Its
+ * idempotent key is derived from the schedule and the occurrence time.
+ *
+ * The tick timer does not keep the process alive.
+ */
+export class Scheduler {
+  private client: EZThrottle;
+  private horizonMs: number;
+  private tickMs: number;
+  private maxPerTick: number;
+  private onSubmitted?: SchedulerOptions['onSubmitted'];
+  private onError?: SchedulerOptions['onError'];
+  private schedules: Map<string, ScheduleState>;
+  private timer: NodeJS.Timeout | null;
+  private ticking: Promise<number> | null;
+
+  constructor(client: EZThrottle, options: SchedulerOptions = {}) {
+    this.client = client;
+    this.horizonMs = options.horizonMs ?? 900000;
+    this.tickMs = options.tickMs ?? 60000;
+    this.maxPerTick = options.maxPerTick ?? 100;
+    this.onSubmitted = options.onSubmitted;
+    this.onError = options.onError;
+    this.schedules = new Map();
+    this.timer = null;
+    this.ticking = null;
+  }
+
+  /**
+   * Schedule a step (see Step.schedule())
+   *
+   * @throws {ValidationError} If the spec is malformed, the step is invalid,
+   * or a schedule with the same ID exists
+   */
+  add(step: Step<any>, spec: ScheduleSpec, { id }: AddScheduleOptions = {}): Schedule {
+    const normalized = normalizeSpec(spec);
+    const definition = step.toJSON();
+    const scheduleId = id || `sched_${hash({ definition: { ...definition, idempotentKey: undefined, retryAt: undefined }, spec })}`;
+    if (this.schedules.has(scheduleId)) {
+      throw new ValidationError(`Schedule ${scheduleId} already exists`);
+    }
+
+    const validation = step.validate();
+    if (!validation.valid) {
+      throw new ValidationError(
+        `Invalid step: ${validation.errors.map(issue => `${issue.path}: ${issue.message}`).join('; ')}`,
+        validation.errors
+      );
+    }
+
+    const now = Date.now();
+    const state: ScheduleState = {
+      id: scheduleId,
+      step,
+      spec: normalized,
+      keyPrefix: definition.idempotentKey || scheduleId,
+      paused: false,
+      cursor: now,
+      info: {
+        id: scheduleId,
+        description: describe(normalized),
+        status: 'active',
+        next_run_at: nextOccurrence(normalized, now),
+        last_submitted_at: null,
+        last_job_id: null,
+        submitted: 0,
+        last_error: null,
+      },
+    };
+    if (state.info.next_run_at === null) state.info.status = 'ended';
+    this.schedules.set(scheduleId, state);
+
+    this.start();
+    this.tick().catch(() => undefined);
+    return new Schedule(this, scheduleId);
+  }
+
+  get(id: string): ScheduleInfo | null {
+    const state = this.schedules.get(id);
+    return state ? { ...state.info } : null;
+  }
+
+  list(): ScheduleInfo[] {
+    return Array.from(this.schedules.values(), state => ({ ...state.info }));
+  }
+
+  /**
+   * Stop submitting new occurrences. Occurrences already submitted (within
+   * the horizon) still run; cancel them with client.cancelJob() if needed.
+   */
+  pause(id: string): void {
+    const state = this.require(id);
+    if (state.info.status === 'active') {
+      state.paused = true;
+      state.info.status = 'paused';
+    }
+  }
+
+  /**
+   * Continue from the next future occurrence; occurrences missed while paused are skipped
+   */
+  resume(id: string): void {
+    const state = this.require(id);
+    if (state.info.status !== 'paused') return;
+    state.paused = false;
+    state.info.status = 'active';
+    state.cursor = Math.max(state.cursor, Date.now());
+    state.info.next_run_at = nextOccurrence(state.spec, state.cursor);
+    this.tick().catch(() => undefined);
+  }
+
+  remove(id: string): boolean {
+    return this.schedules.delete(id);
+  }
+
+  /**
+   * Submit every due occurrence within the horizon now
+   *
+   * @returns Number of occurrences submitted
+   */
+  tick(): Promise<number> {
+    if (!this.ticking) {
+      this.ticking = this.submitDue().finally(() => {
+        this.ticking = null;
+      });
+    }
+    return this.ticking;
+  }
+
+  /**
+   * Start the tick timer (called automatically by add())
+   */
+  start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => {
+      this.tick().catch(() => undefined);
+    }, this.tickMs);
+    this.timer.unref();
+  }
+
+  /**
+   * Stop the tick timer; schedules are kept
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private async submitDue(): Promise<number> {
+    let submitted = 0;
+    for (const state of Array.from(this.schedules.values())) {
+      if (state.paused || state.info.status === 'ended') continue;
+      submitted += await this.submitSchedule(state);
+    }
+    return submitted;
+  }
+
+  private async submitSchedule(state: ScheduleState): Promise<number> {
+    const now = Date.now();
+    const horizon = now + this.horizonMs;
+    // Occurrences that passed without being submitted are skipped, not backfilled
+    let cursor = Math.max(state.cursor, now);
+    let submitted = 0;
+
+    while (submitted < this.maxPerTick && this.schedules.get(state.id) === state && !state.paused) {
+      const occurrence = nextOccurrence(state.spec, cursor);
+      state.info.next_run_at = occurrence;
+      if (occurrence === null) {
+        state.info.status = 'ended';
+        break;
+      }
+      if (occurrence > horizon) break;
+
+      const job = state.step._buildJobPayload();
+      job.idempotentKey = occurrenceKey(state.keyPrefix, occurrence);
+      job.retryAt = occurrence;
+
+      try {
+        const result = await this.client.submitJob(job);
+        submitted++;
+        cursor = state.cursor = occurrence;
+        state.info.submitted++;
+        state.info.last_submitted_at = occurrence;
+        state.info.last_job_id = result.job_id;
+        state.info.last_error = null;
+        if (this.onSubmitted) this.onSubmitted({ ...state.info }, occurrence, result);
+      } catch (error) {
+        state.info.last_error = error instanceof Error ? error.message : String(error);
+        if (this.onError) this.onError({ ...state.info }, occurrence, error);
+        break;
+      }
+    }
+    return submitted;
+  }
+
+  private require(id: string): ScheduleState {
+    const state = this.schedules.get(id);
+    if (!state) {
+      throw new ValidationError(`Unknown schedule ${id}`);
+    }
+    return state;
+  }
+}
+
+function parseDuration(every: number | string): number {
+  let ms: number;
+  if (typeof every === 'number') {
+    ms = every;
+  } else {
+    const match = /^\s*(\d+)\s*(ms|s|m|h|d)\s*$/.exec(every);
+    ms = match ? Number(match[1]) * DURATION_UNITS[match[2]] : NaN;
+  }
+  if (!Number.isFinite(ms) || ms < 1000) {
+    throw new ValidationError(`Invalid schedule interval "${every}" (use ms >= 1000, or e.g. '30s', '15m', '1h', '1d')`);
+  }
+  return ms;
+}
+
+function toTimestamp(value: number | Date | string, field: string): number {
+  const time = value instanceof Date ? value.getTime() : typeof value === 'string' ? Date.parse(value) : value;
+  if (!Number.isFinite(time)) {
+    throw new ValidationError(`Invalid schedule ${field}: ${String(value)}`);
+  }
+  return time;
+}
+
+function describe(spec: NormalizedSpec): string {
+  return spec.kind === 'cron'
+    ? `cron "${spec.cron.source}" (${spec.timezone})`
+    : `every ${spec.everyText}`;
+}
+
+function hash(value: unknown): string {
+  return createHash('sha256').update(JSON.stringify(value)).digest('hex').slice(0, 16);
+}
@@ -0,0 +1,219 @@
+/**
+ * Single-flight execution: concurrent calls with the same idempotent key
+ * share one run, and its result answers repeats for a short window. A
+ * SingleFlightStore extends both across processes.
+ */
+
+import { abortableSleep, cancelledError, onAbort, throwIfAborted } from './abort';
+import type { Logger } from './logger';
+
+/**
+ * Shared state for single-flight across processes (implement for Redis, SQL, ...)
+ *
+ * Values are JSON-serializable. A claim is a lease: if its holder dies, it
+ * expires after `ttlMs` and another caller takes over.
+ */
+export interface SingleFlightStore {
+  /** Cached result for `key`, or null if there is none (or it expired) */
+  get(key: string): Promise<unknown | null>;
+  /** Claim `key` for `ttlMs`; true if the caller now holds it (e.g. Redis SET NX PX) */
+  acquire(key: string, ttlMs: number): Promise<boolean>;
+  /** Cache `value` for `ttlMs` and drop the claim */
+  set(key: string, value: unknown, ttlMs: number): Promise<void>;
+  /** Drop the claim without a result (the run failed) */
+  release(key: string): Promise<void>;
+}
+
+/**
+ * Single-flight configuration
+ */
+export interface SingleFlightOptions {
+  /**
+   * How long a finished run answers repeats in milliseconds (default: 5000).
+   * Processes waiting on another process read the result from this cache,
+   * so 0 limits deduplication to callers in this process.
+   */
+  resultTtlMs?: number;
+  /** Shared store (default: MemorySingleFlightStore, this process only) */
+  store?: SingleFlightStore;
+  /** How long a claim lasts before another process may take over in milliseconds (default: 60000) */
+  leaseMs?: number;
+  /** How often a waiting process checks the store in milliseconds (default: 250) */
+  pollIntervalMs?: number;
+}
+
+interface Flight {
+  promise: Promise<unknown>;
+  controller: AbortController;
+  waiters: number;
+}
+
+interface CacheEntry {
+  value: unknown;
+  expiresAt: number;
+}
+
+/**
+ * MemorySingleFlightStore - Default store, shared within one process
+ */
+export class MemorySingleFlightStore implements SingleFlightStore {
+  private results: Map<string, CacheEntry> = new Map();
+  private leases: Map<string, number> = new Map();
+
+  async get(key: string): Promise<unknown | null> {
+    const entry = this.results.get(key);
+    if (!entry) return null;
+    if (entry.expiresAt <= Date.now()) {
+      this.results.delete(key);
+      return null;
+    }
+    return entry.value;
+  }
+
+  async acquire(key: string, ttlMs: number): Promise<boolean> {
+    const now = Date.now();
+    const expiresAt = this.leases.get(key);
+    if (expiresAt !== undefined && expiresAt > now) return false;
+    this.leases.set(key, now + ttlMs);
+    return true;
+  }
+
+  async set(key: string, value: unknown, ttlMs: number): Promise<void> {
+    this.leases.delete(key);
+    this.prune();
+    if (ttlMs > 0) this.results.set(key, { value, expiresAt: Date.now() + ttlMs });
+  }
+
+  async release(key: string): Promise<void> {
+    this.leases.delete(key);
+  }
+
+  // Drop expired results so keys that are never repeated don't accumulate
+  private prune(): void {
+    const now = Date.now();
+    for (const [key, entry] of this.results) {
+      if (entry.expiresAt <= now) this.results.delete(key);
+    }
+  }
+}
+
+/**
+ * SingleFlight - Deduplicates concurrent runs by key
+ *
+ * Callers in this process join the run already in flight. Across processes,
+ * the store's claim picks one runner; the others poll for its result. The
+ * run is only cancelled once every caller waiting on it has cancelled.
+ */
+export class SingleFlight {
+  private resultTtlMs: number;
+  private store: SingleFlightStore;
+  private leaseMs: number;
+  private pollIntervalMs: number;
+  private flights: Map<string, Flight>;
+  private logger: Logger | null;
+
+  constructor(options: SingleFlightOptions = {}, logger: Logger | null = null) {
+    this.resultTtlMs = options.resultTtlMs ?? 5000;
+    this.store = options.store || new MemorySingleFlightStore();
+    this.leaseMs = options.leaseMs ?? 60000;
+    this.pollIntervalMs = options.pollIntervalMs ?? 250;
+    this.flights = new Map();
+    this.logger = logger;
+  }
+
+  /**
+   * Run `fn` once per key: join the run in flight, reuse a cached result, or start it
+   *
+   * `fn` gets a signal that fires when every caller has cancelled. Errors
+   * are shared with the callers waiting at the time, but never cached.
+   *
+   * @throws {CancelledError} If `signal` fires first (the run continues for other callers)
+   */
+  async run<T>(key: string, fn: (signal: AbortSignal) => Promise<T>, signal?: AbortSignal): Promise<T> {
+    throwIfAborted(signal);
+
+    let flight = this.flights.get(key);
+    // A run whose callers all cancelled is winding down; don't join it
+    if (flight && !flight.controller.signal.aborted) {
+      this.logger?.debug('Joined in-flight execution', { idempotent_key: key });
+    } else {
+      const controller = new AbortController();
+      const started: Flight = { promise: Promise.resolve(), controller, waiters: 0 };
+      started.promise = this.lead(key, () => fn(controller.signal), controller.signal).finally(() => {
+        if (this.flights.get(key) === started) this.flights.delete(key);
+      });
+      flight = started;
+      this.flights.set(key, flight);
+    }
+
+    return this.wait(flight, signal) as Promise<T>;
+  }
+
+  /**
+   * Number of runs currently in flight in this process
+   */
+  get inFlight(): number {
+    return this.flights.size;
+  }
+
+  private async lead(key: string, fn: () => Promise<unknown>, signal: AbortSignal): Promise<unknown> {
+    for (;;) {
+      const cached = await this.store.get(key);
+      if (cached !== null && cached !== undefined) {
+        this.logger?.debug('Reused cached execution result', { idempotent_key: key });
+        return cached;
+      }
+
+      if (await this.store.acquire(key, this.leaseMs)) {
+        let value: unknown;
+        try {
+          value = await fn();
+        } catch (error) {
+          // A failed release only delays the next claim until the lease expires
+          await this.store.release(key).catch(() => undefined);
+          throw error;
+        }
+        try {
+          await this.store.set(key, value, this.resultTtlMs);
+        } catch (error) {
+          // The run succeeded; only later repeats lose the cached result
+          this.logger?.warn('Single-flight store failed to save the result', { idempotent_key: key, error });
+        }
+        return value;
+      }
+
+      // Another process holds the claim: wait for its result (or for the lease to expire)
+      await abortableSleep(this.pollIntervalMs, signal);
+    }
+  }
+
+  private wait(flight: Flight, signal?: AbortSignal): Promise<unknown> {
+    flight.waiters++;
+    return new Promise((resolve, reject) => {
+      let settled = false;
+      const removeListener = onAbort(signal, () => {
+        if (settled) return;
+        settled = true;
+        reject(cancelledError(signal!));
+        if (--flight.waiters === 0) flight.controller.abort(signal!.reason);
+      });
+
+      flight.promise.then(
+        value => {
+          removeListener();
+          if (settled) return;
+          settled = true;
+          flight.waiters--;
+          resolve(value);
+        },
+        error => {
+          removeListener();
+          if (settled) return;
+          settled = true;
+          flight.waiters--;
+          reject(error);
+        }
+      );
+    });
+  }
+}
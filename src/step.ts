@@ -1,24 +1,70 @@
-import fetch, { Response } from 'node-fetch';
 import { v4 as uuidv4 } from 'uuid';
 import { StepType } from './stepType';
 import { IdempotentStrategy } from './idempotentStrategy';
-import { EZThrottleError } from './errors';
-import { JobPayload, WebhookConfig, RetryPolicy, FallbackTrigger, IStep } from './types';
+import { CancelledError, EZThrottleError, JobFailedError, ValidationError } from './errors';
+import {
+  JobPayload,
+  WebhookConfig,
+  RetryPolicy,
+  FallbackTrigger,
+  IStep,
+  JobResponse,
+  WaitOptions,
+  ExecuteOptions,
+  ValidationIssue,
+  ValidationResult,
+  StepDefinition,
+  StepTraceEntry,
+  StepResult,
+  LocalSuccess,
+  LocalFailure,
+  ResponseDecoder,
+  SubmitJobResult,
+} from './types';
+import type { WebhookEvent } from './webhookHandler';
+import type { TransportResponse } from './transport';
 import { EZThrottle } from './client';
+import { collectBatch, BatchOptions, BatchReport } from './batch';
+import { cancelledError, onAbort, throwIfAborted } from './abort';
+import { deriveIdempotentKey, renderIdempotentKey } from './idempotency';
+import type { AddScheduleOptions, Schedule, ScheduleSpec } from './scheduler';
 
 interface FallbackStep {
   step: Step;
   trigger: Partial<FallbackTrigger>;
 }
 
-interface LocalExecutionResult {
-  status: 'success' | 'failed';
-  executed_locally: boolean;
-  status_code: number;
-  response?: string;
-  error?: string;
+type LocalAttempt =
+  | { kind: 'response'; statusCode: number; headers: Record<string, string>; body: string }
+  | { kind: 'timeout'; timeoutMs: number }
+  | { kind: 'error'; error: unknown }
+  | { kind: 'busy' };
+
+type NodeOutcome =
+  | { status: 'success'; statusCode: number; headers: Record<string, string>; body: string }
+  | { status: 'failed'; failure: LocalAttempt }
+  | { status: 'forwarded'; result: SubmitJobResult };
+
+interface WorkflowContext {
+  client: EZThrottle;
+  trace: StepTraceEntry[];
+  /** Absolute time after which nothing else may run (onFailureTimeout) */
+  deadline: number | null;
+  /** Caller's cancellation signal: nothing new starts once it fires */
+  signal?: AbortSignal;
 }
 
+const KNOWN_METHODS = ['GET', 'HEAD', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'];
+
+/**
+ * Current StepDefinition format version. Bump it (and teach fromJSON() to
+ * upgrade the previous format) whenever the definition shape changes.
+ *
+ * - 1: initial format
+ * - 2: adds idempotentKeyTemplate (an SDK that ignored it would derive different keys)
+ */
+export const STEP_DEFINITION_VERSION = 2;
+
 /**
  * Fluent builder for EZThrottle job steps
  *
@@ -31,7 +77,7 @@ interface LocalExecutionResult {
  *     .onSuccess(successStep)
  *     .execute();
  */
-export class Step implements IStep {
+export class Step<T = unknown> implements IStep {
   private client: EZThrottle | null;
   private _stepType: StepType;
 
@@ -58,6 +104,7 @@ export class Step implements IStep {
   // Deduplication
   private _idempotentKey: string | null;
   private _idempotentStrategy: IdempotentStrategy;
+  private _idempotentKeyTemplate: string | null;
 
   // Frugal-specific: error codes that trigger EZThrottle forwarding
   private _fallbackOnError: number[];
@@ -69,6 +116,9 @@ export class Step implements IStep {
   private _onFailureStep: Step | null;
   private _onFailureTimeoutMs: number | null;
 
+  // Local response decoding
+  private _decoder: ResponseDecoder<T> | null;
+
   constructor(client: EZThrottle | null = null) {
     this.client = client;
     this._stepType = StepType.PERFORMANCE; // Default
@@ -96,6 +146,7 @@ export class Step implements IStep {
     // Deduplication
     this._idempotentKey = null;
     this._idempotentStrategy = IdempotentStrategy.HASH; // Default
+    this._idempotentKeyTemplate = null;
 
     // Frugal-specific: error codes that trigger EZThrottle forwarding
     this._fallbackOnError = [429, 500, 502, 503, 504];
@@ -106,6 +157,9 @@ export class Step implements IStep {
     this._onSuccessStep = null;
     this._onFailureStep = null;
     this._onFailureTimeoutMs = null;
+
+    // Local response decoding
+    this._decoder = null;
   }
 
   type(stepType: StepType): this {
@@ -183,6 +237,48 @@ export class Step implements IStep {
     return this;
   }
 
+  /**
+   * Build the idempotent key from the request instead of setting it directly
+   *
+   * Placeholders: `{metadata.<path>}`, `{body.<path>}` (JSON bodies),
+   * `{headers.<name>}`, `{url}`, `{method}` and `{hash}`. An explicit
+   * idempotentKey() takes precedence.
+   *
+   * @example
+   * ```typescript
+   * step.metadata({ orderId: order.id }).idempotentKeyTemplate('order:{metadata.orderId}');
+   * ```
+   */
+  idempotentKeyTemplate(template: string): this {
+    this._idempotentKeyTemplate = template;
+    return this;
+  }
+
+  /**
+   * The idempotent key this step's job will be created with, before submitting it
+   *
+   * Explicit keys and templates are returned as is. With
+   * IdempotentStrategy.HASH the key is only known locally when the attached
+   * client sends derived keys (sendIdempotentKeys or idempotencyNamespace);
+   * its namespace is applied.
+   *
+   * @returns The key, or null if EZThrottle derives it (HASH) or every
+   * submission gets a new one (UNIQUE)
+   * @throws {ValidationError} If the URL is missing or a template value is missing
+   */
+  computeIdempotentKey(): string | null {
+    return this._computeIdempotentKey(this.client);
+  }
+
+  private _computeIdempotentKey(client: EZThrottle | null): string | null {
+    if (!this._idempotentKey && !this._idempotentKeyTemplate && this._idempotentStrategy === IdempotentStrategy.UNIQUE) {
+      return null;
+    }
+    // Same resolution the client applies on submit
+    const payload = this._buildJobPayload();
+    return (client ? client.resolveIdempotentKeys(payload) : payload).idempotentKey ?? null;
+  }
+
   /**
    * (FRUGAL only) Set error codes that trigger EZThrottle forwarding
    * Default: [429, 500, 502, 503, 504]
@@ -255,12 +351,308 @@ export class Step implements IStep {
     return this;
   }
 
+  /**
+   * Decode local response bodies into `result.data` (default: JSON.parse)
+   *
+   * The decoder is a function, so it is not included in toJSON().
+   *
+   * @example
+   * ```typescript
+   * const result = await new Step(client)
+   *   .url('https://api.example.com/users/1')
+   *   .type(StepType.FRUGAL)
+   *   .decode(body => UserSchema.parse(JSON.parse(body)))
+   *   .execute();
+   * if (result.status === 'success') {
+   *   result.data.email; // typed as User
+   * }
+   * ```
+   */
+  decode<U>(decoder: ResponseDecoder<U>): Step<U> {
+    const step = this as unknown as Step<U>;
+    step._decoder = decoder;
+    return step;
+  }
+
+  /**
+   * Check this step and its whole workflow tree for invalid configuration
+   *
+   * Issue paths point into the tree, e.g. `onSuccess.fallback[1].url`.
+   * execute() throws a ValidationError if there are any errors; warnings
+   * never block execution.
+   */
+  validate(): ValidationResult {
+    const issues: ValidationIssue[] = [];
+    this._collectIssues('', new Set(), issues);
+
+    const errors = issues.filter(issue => issue.severity === 'error');
+    return {
+      valid: errors.length === 0,
+      errors,
+      warnings: issues.filter(issue => issue.severity === 'warning'),
+    };
+  }
+
+  /**
+   * Validate this step, then recurse into fallbacks, onSuccess and onFailure
+   */
+  private _collectIssues(path: string, ancestors: Set<Step>, issues: ValidationIssue[]): void {
+    const at = (field: string) => (path ? `${path}.${field}` : field);
+    const error = (field: string, message: string) => issues.push({ severity: 'error', path: at(field), message });
+    const warn = (field: string, message: string) => issues.push({ severity: 'warning', path: at(field), message });
+
+    if (!this._url) {
+      error('url', 'URL is required');
+    } else if (!isHttpUrl(this._url)) {
+      error('url', `Invalid URL: ${this._url}`);
+    }
+
+    if (!KNOWN_METHODS.includes(this._method)) {
+      warn('method', `Unusual HTTP method: ${this._method}`);
+    }
+    if (this._body && (this._method === 'GET' || this._method === 'HEAD')) {
+      error('body', `${this._method} requests cannot have a body`);
+    }
+
+    this._webhooks.forEach((webhook, i) => {
+      if (!webhook.url || !isHttpUrl(webhook.url)) {
+        error(`webhooks[${i}].url`, `Invalid webhook URL: ${webhook.url}`);
+      }
+    });
+
+    const votingWebhooks = this._webhooks.filter(webhook => webhook.has_quorum_vote !== false).length;
+    if (!Number.isInteger(this._webhookQuorum) || this._webhookQuorum < 1) {
+      error('webhookQuorum', 'webhookQuorum must be a positive integer');
+    } else if (
+      this._webhookQuorum > votingWebhooks &&
+      (this._webhooks.length > 0 || this._webhookQuorum !== 1)
+    ) {
+      error(
+        'webhookQuorum',
+        `webhookQuorum is ${this._webhookQuorum} but only ${votingWebhooks} webhook(s) have a quorum vote`
+      );
+    }
+
+    if (this._regions && this._regions.length === 0) {
+      warn('regions', 'regions is empty; the default region will be used');
+    }
+    if (this._regionPolicy === 'strict' && (!this._regions || this._regions.length === 0)) {
+      error('regionPolicy', "regionPolicy 'strict' requires at least one region");
+    }
+
+    if (this._retryPolicy) {
+      for (const field of ['max_retries', 'max_reroutes'] as const) {
+        const value = this._retryPolicy[field];
+        if (value !== undefined && (!Number.isInteger(value) || value < 0)) {
+          error(`retryPolicy.${field}`, `${field} must be a non-negative integer`);
+        }
+      }
+    }
+    if (this._retryAt !== null && this._retryAt < Date.now()) {
+      warn('retryAt', 'retryAt is in the past; the job will run immediately');
+    }
+    if (this._idempotentKeyTemplate && !this._idempotentKey && this._url) {
+      try {
+        renderIdempotentKey(this._idempotentKeyTemplate, {
+          url: this._url,
+          method: this._method,
+          headers: this._headers,
+          body: this._body || undefined,
+          metadata: this._metadata,
+        });
+      } catch (err) {
+        error('idempotentKeyTemplate', (err as Error).message);
+      }
+    }
+
+    if (!Number.isFinite(this._localTimeout) || this._localTimeout <= 0) {
+      error('timeout', 'timeout must be a positive number of milliseconds');
+    }
+    if (this._onFailureTimeoutMs !== null) {
+      if (!Number.isFinite(this._onFailureTimeoutMs) || this._onFailureTimeoutMs <= 0) {
+        error('onFailureTimeout', 'onFailureTimeout must be a positive number of milliseconds');
+      }
+      if (!this._onFailureStep) {
+        warn('onFailureTimeout', 'onFailureTimeout has no effect without onFailure');
+      }
+    }
+
+    this._fallbackSteps.forEach(({ trigger }, i) => {
+      if (trigger.type !== 'on_timeout') return;
+      if (this._stepType === StepType.PERFORMANCE) {
+        error(`fallback[${i}].trigger`, 'on_timeout fallbacks only apply to FRUGAL steps');
+      }
+      if (!trigger.timeout_ms || trigger.timeout_ms <= 0) {
+        error(`fallback[${i}].trigger`, 'triggerOnTimeout must be a positive number of milliseconds');
+      }
+    });
+
+    // Recurse into the workflow tree, refusing steps that contain themselves
+    const children: Array<[string, Step]> = this._fallbackSteps.map(({ step }, i) => [`fallback[${i}]`, step]);
+    if (this._onSuccessStep) children.push(['onSuccess', this._onSuccessStep]);
+    if (this._onFailureStep) children.push(['onFailure', this._onFailureStep]);
+
+    const lineage = new Set(ancestors).add(this);
+    for (const [field, child] of children) {
+      if (lineage.has(child)) {
+        error(field, 'Step is reused inside its own workflow (infinite recursion)');
+        continue;
+      }
+      child._collectIssues(at(field), lineage, issues);
+    }
+  }
+
+  /**
+   * Serialize the whole workflow tree (fallbacks, onSuccess, onFailure)
+   *
+   * Every builder field is included, so `Step.fromJSON(step.toJSON())`
+   * rebuilds an identical step. JSON.stringify(step) calls this automatically.
+   *
+   * @throws {ValidationError} If the step is reused inside its own workflow
+   */
+  toJSON(): StepDefinition {
+    return this._toDefinition(new Set());
+  }
+
+  private _toDefinition(ancestors: Set<Step>): StepDefinition {
+    if (ancestors.has(this)) {
+      throw new ValidationError('Cannot serialize a step that is reused inside its own workflow');
+    }
+    const lineage = new Set(ancestors).add(this);
+
+    return {
+      version: STEP_DEFINITION_VERSION,
+      type: this._stepType,
+      url: this._url,
+      method: this._method,
+      headers: { ...this._headers },
+      body: this._body,
+      metadata: clone(this._metadata),
+      webhooks: clone(this._webhooks),
+      webhookQuorum: this._webhookQuorum,
+      regions: this._regions ? [...this._regions] : null,
+      regionPolicy: this._regionPolicy,
+      executionMode: this._executionMode,
+      retryPolicy: this._retryPolicy ? clone(this._retryPolicy) : null,
+      retryAt: this._retryAt,
+      idempotentKey: this._idempotentKey,
+      idempotentStrategy: this._idempotentStrategy,
+      idempotentKeyTemplate: this._idempotentKeyTemplate,
+      fallbackOnError: [...this._fallbackOnError],
+      timeout: this._localTimeout,
+      fallbacks: this._fallbackSteps.map(({ step, trigger }) => ({
+        step: step._toDefinition(lineage),
+        trigger: clone(trigger),
+      })),
+      onSuccess: this._onSuccessStep ? this._onSuccessStep._toDefinition(lineage) : null,
+      onFailure: this._onFailureStep ? this._onFailureStep._toDefinition(lineage) : null,
+      onFailureTimeoutMs: this._onFailureTimeoutMs,
+    };
+  }
+
+  /**
+   * Rebuild a Step tree from toJSON() output (object or JSON string)
+   *
+   * Fields missing from older definitions keep their builder defaults.
+   *
+   * @param json - Definition produced by toJSON()
+   * @param client - Client attached to every step in the tree
+   * @throws {ValidationError} If the definition is malformed or from a newer SDK
+   *
+   * @example
+   * ```typescript
+   * await db.save('checkout-flow', JSON.stringify(step));
+   * const restored = Step.fromJSON(await db.load('checkout-flow'), client);
+   * ```
+   */
+  static fromJSON(json: string | Partial<StepDefinition>, client: EZThrottle | null = null): Step {
+    let definition: Partial<StepDefinition>;
+    if (typeof json === 'string') {
+      try {
+        definition = JSON.parse(json);
+      } catch (error) {
+        throw new ValidationError('Step definition is not valid JSON', [], { cause: error });
+      }
+    } else {
+      definition = json;
+    }
+    return Step._fromDefinition(definition, client, '');
+  }
+
+  private static _fromDefinition(definition: Partial<StepDefinition>, client: EZThrottle | null, path: string): Step {
+    const invalid = (field: string, message: string): ValidationError => {
+      const issuePath = [path, field].filter(Boolean).join('.');
+      return new ValidationError(`Invalid step definition${issuePath ? ` at ${issuePath}` : ''}: ${message}`, [
+        { severity: 'error', path: issuePath, message },
+      ]);
+    };
+
+    if (!definition || typeof definition !== 'object') {
+      throw invalid('', 'expected an object');
+    }
+
+    const version = definition.version ?? 1;
+    if (!Number.isInteger(version) || version < 1 || version > STEP_DEFINITION_VERSION) {
+      throw invalid('version', `unsupported version ${version} (this SDK reads up to ${STEP_DEFINITION_VERSION})`);
+    }
+    if (definition.type !== undefined && !Object.values(StepType).includes(definition.type)) {
+      throw invalid('type', `unknown step type ${definition.type}`);
+    }
+    if (
+      definition.idempotentStrategy !== undefined &&
+      !Object.values(IdempotentStrategy).includes(definition.idempotentStrategy)
+    ) {
+      throw invalid('idempotentStrategy', `unknown idempotent strategy ${definition.idempotentStrategy}`);
+    }
+
+    const step = new Step(client);
+    if (definition.type !== undefined) step._stepType = definition.type;
+    if (definition.url !== undefined) step._url = definition.url;
+    if (definition.method !== undefined) step._method = definition.method;
+    if (definition.headers) step._headers = { ...definition.headers };
+    if (definition.body !== undefined) step._body = definition.body;
+    if (definition.metadata) step._metadata = clone(definition.metadata);
+    if (definition.webhooks) step._webhooks = clone(definition.webhooks);
+    if (definition.webhookQuorum !== undefined) step._webhookQuorum = definition.webhookQuorum;
+    if (definition.regions !== undefined) step._regions = definition.regions ? [...definition.regions] : null;
+    if (definition.regionPolicy !== undefined) step._regionPolicy = definition.regionPolicy;
+    if (definition.executionMode !== undefined) step._executionMode = definition.executionMode;
+    if (definition.retryPolicy !== undefined) {
+      step._retryPolicy = definition.retryPolicy ? clone(definition.retryPolicy) : null;
+    }
+    if (definition.retryAt !== undefined) step._retryAt = definition.retryAt;
+    if (definition.idempotentKey !== undefined) step._idempotentKey = definition.idempotentKey;
+    if (definition.idempotentStrategy !== undefined) step._idempotentStrategy = definition.idempotentStrategy;
+    // Version 1 predates templates
+    if (version >= 2 && definition.idempotentKeyTemplate !== undefined) {
+      step._idempotentKeyTemplate = definition.idempotentKeyTemplate;
+    }
+    if (definition.fallbackOnError) step._fallbackOnError = [...definition.fallbackOnError];
+    if (definition.timeout !== undefined) step._localTimeout = definition.timeout;
+    if (definition.onFailureTimeoutMs !== undefined) step._onFailureTimeoutMs = definition.onFailureTimeoutMs;
+
+    (definition.fallbacks || []).forEach((fallback, i) => {
+      step._fallbackSteps.push({
+        step: Step._fromDefinition(fallback.step, client, path ? `${path}.fallback[${i}]` : `fallback[${i}]`),
+        trigger: clone(fallback.trigger || {}),
+      });
+    });
+    if (definition.onSuccess) {
+      step._onSuccessStep = Step._fromDefinition(definition.onSuccess, client, path ? `${path}.onSuccess` : 'onSuccess');
+    }
+    if (definition.onFailure) {
+      step._onFailureStep = Step._fromDefinition(definition.onFailure, client, path ? `${path}.onFailure` : 'onFailure');
+    }
+
+    return step;
+  }
+
   /**
    * Build EZThrottle job payload from step configuration
    */
   _buildJobPayload(): JobPayload {
     if (!this._url) {
-      throw new Error('URL is required');
+      throw new ValidationError('URL is required', [{ severity: 'error', path: 'url', message: 'URL is required' }]);
     }
 
     const payload: JobPayload = {
@@ -283,10 +675,12 @@ export class Step implements IStep {
     // Handle idempotent key based on strategy
     if (this._idempotentKey) {
       payload.idempotentKey = this._idempotentKey;
+    } else if (this._idempotentKeyTemplate) {
+      payload.idempotentKey = renderIdempotentKey(this._idempotentKeyTemplate, payload);
     } else if (this._idempotentStrategy === IdempotentStrategy.UNIQUE) {
       payload.idempotentKey = uuidv4();
     }
-    // else: HASH strategy - let backend generate deterministic hash
+    // else: HASH strategy - EZThrottle derives the key, unless the client sends derived keys
 
     // Add fallback chain
     if (this._fallbackSteps.length > 0) {
@@ -311,19 +705,19 @@ export class Step implements IStep {
   }
 
   /**
-   * Build recursive fallback chain
+   * Build recursive fallback chain, starting at fallback number `start`
    */
-  _buildFallbackChain(): JobPayload | null {
-    if (this._fallbackSteps.length === 0) {
+  _buildFallbackChain(start: number = 0): JobPayload | null {
+    if (this._fallbackSteps.length <= start) {
       return null;
     }
 
     // Build chain recursively (first fallback → second fallback → ...)
     let fallbackJob: JobPayload | null = null;
-    for (let i = this._fallbackSteps.length - 1; i >= 0; i--) {
+    for (let i = this._fallbackSteps.length - 1; i >= start; i--) {
       const { step, trigger } = this._fallbackSteps[i];
       const currentFallback = step._buildJobPayload();
-      (currentFallback as any).trigger = trigger;
+      currentFallback.trigger = trigger;
 
       // Attach nested fallback
       if (fallbackJob) {
@@ -338,80 +732,287 @@ export class Step implements IStep {
 
   /**
    * Execute HTTP request locally (FRUGAL mode)
+   *
+   * Never throws for request failures: timeouts, network errors and a full
+   * per-host limiter queue ('busy') are reported as outcomes so the workflow
+   * engine can match them against fallback triggers.
+   *
+   * @throws {CancelledError} If `signal` fires (the request is aborted)
    */
-  private async _executeLocal(): Promise<Response> {
+  private async _executeLocal(
+    client: EZThrottle,
+    path: string,
+    deadline: number | null,
+    signal?: AbortSignal
+  ): Promise<LocalAttempt> {
     if (!this._url) {
-      throw new Error('URL is required');
+      throw new ValidationError('URL is required', [{ severity: 'error', path: 'url', message: 'URL is required' }]);
+    }
+    const url = this._url;
+
+    // on_timeout fallbacks fire when their timeout_ms elapses, even if it is shorter than the local timeout
+    const timeouts = [this._localTimeout];
+    for (const { trigger } of this._fallbackSteps) {
+      if (trigger.type === 'on_timeout' && trigger.timeout_ms) timeouts.push(trigger.timeout_ms);
+    }
+    if (deadline !== null) timeouts.push(deadline - Date.now());
+    const timeoutMs = Math.min(...timeouts);
+    if (timeoutMs <= 0) {
+      return { kind: 'timeout', timeoutMs: 0 };
+    }
+
+    const attributes = { 'http.method': this._method, 'http.url': url, 'ezthrottle.path': path };
+    return client.telemetry.span('ezthrottle.local_request', attributes, async span => {
+      const startedAt = Date.now();
+      const attempt = await this._sendLocal(client, url, path, timeoutMs, signal);
+
+      if (span) {
+        span.setAttribute('ezthrottle.outcome', attempt.kind);
+        if (attempt.kind === 'response') span.setAttribute('http.status_code', attempt.statusCode);
+      }
+      const event = {
+        path,
+        url,
+        method: this._method,
+        outcome: attempt.kind,
+        status_code: attempt.kind === 'response' ? attempt.statusCode : null,
+        error: attempt.kind === 'error' ? attempt.error : undefined,
+        duration_ms: Date.now() - startedAt,
+      };
+      client.logger.debug('Local request completed', event);
+      client.hooks.emit('afterLocalResponse', event);
+      return attempt;
+    });
+  }
+
+  /**
+   * Acquire a limiter slot and send the request (beforeLocalRequest listeners may edit headers)
+   */
+  private async _sendLocal(
+    client: EZThrottle,
+    url: string,
+    path: string,
+    timeoutMs: number,
+    signal?: AbortSignal
+  ): Promise<LocalAttempt> {
+    const limiter = client.localLimiter;
+    const host = new URL(url).host;
+    const release = limiter ? await limiter.acquire(host, signal) : null;
+    if (limiter && !release) {
+      return { kind: 'busy' };
     }
+    if (signal && signal.aborted) {
+      if (release) release();
+      throw cancelledError(signal);
+    }
+
+    const headers = { ...client.telemetry.traceContext(), ...this._headers };
+    client.hooks.emit('beforeLocalRequest', { path, url, method: this._method, headers });
 
+    // The local timeout and the caller's signal both abort the request
     const controller = new AbortController();
-    const timeout = setTimeout(() => controller.abort(), this._localTimeout);
+    const timeout = setTimeout(() => controller.abort(), timeoutMs);
+    const removeAbortListener = onAbort(signal, () => controller.abort());
 
     try {
-      const response = await fetch(this._url, {
+      const response = await client.transport.request(url, {
         method: this._method,
-        headers: this._headers,
+        headers,
         body: this._body || undefined,
         signal: controller.signal,
       });
 
-      clearTimeout(timeout);
-      return response;
+      if (limiter) {
+        limiter.update(host, response.headers);
+      }
+      return {
+        kind: 'response',
+        statusCode: response.status,
+        headers: headersToObject(response.headers),
+        body: await response.text(),
+      };
     } catch (error) {
+      if (signal && signal.aborted) {
+        throw cancelledError(signal);
+      }
+      return controller.signal.aborted ? { kind: 'timeout', timeoutMs } : { kind: 'error', error };
+    } finally {
       clearTimeout(timeout);
-      throw error;
+      removeAbortListener();
+      if (release) release();
     }
   }
 
   /**
-   * Try all fallback steps locally
+   * Run this node of a FRUGAL workflow as declared
+   *
+   * - PERFORMANCE nodes are forwarded to EZThrottle with the rest of their chain
+   * - Local success runs onSuccess
+   * - Local failure tries matching fallbacks (on_error codes, on_timeout, or
+   *   untriggered), then forwards retryable failures (fallbackOnError codes,
+   *   timeouts, network errors) to EZThrottle
+   * - Terminal failure runs onFailure, bounded by onFailureTimeout
+   *
+   * Fallback nodes run with `forwardOnFailure` false: a failing fallback hands
+   * control back to its parent instead of being forwarded on its own.
    */
-  private async _tryLocalFallbacks(client: EZThrottle, errorCode: number | null = null): Promise<LocalExecutionResult | null> {
-    for (const { step, trigger } of this._fallbackSteps) {
-      // Check if this fallback should be triggered
-      let shouldTrigger = false;
-
-      if (trigger && trigger.type) {
-        const triggerType = trigger.type;
-        if (triggerType === 'on_error') {
-          const triggerCodes = trigger.codes || [];
-          if (errorCode && triggerCodes.includes(errorCode)) {
-            shouldTrigger = true;
-          }
-        } else if (triggerType === 'on_timeout') {
-          // For timeout trigger, always try
-          shouldTrigger = true;
-        }
-      } else {
-        // No trigger specified, always try
-        shouldTrigger = true;
-      }
+  private async _runNode(path: string, context: WorkflowContext, forwardOnFailure: boolean = true): Promise<NodeOutcome> {
+    throwIfAborted(context.signal);
+    const deadlinePassed = () => context.deadline !== null && Date.now() >= context.deadline;
+    if (deadlinePassed()) {
+      context.trace.push({ path, url: this._url, location: 'local', outcome: 'timeout', error: 'onFailureTimeout exceeded', duration_ms: 0 });
+      return { status: 'failed', failure: { kind: 'timeout', timeoutMs: 0 } };
+    }
 
-      if (!shouldTrigger) {
-        continue;
+    if (this._stepType === StepType.PERFORMANCE) {
+      return this._forwardNode(this._buildJobPayload(), path, context, 'performance');
+    }
+
+    const startedAt = Date.now();
+    const attempt = await this._executeLocal(context.client, path, context.deadline, context.signal);
+    const trace = (entry: Partial<StepTraceEntry>) => context.trace.push({
+      path,
+      url: this._url,
+      location: 'local',
+      outcome: 'failed',
+      duration_ms: Date.now() - startedAt,
+      ...entry,
+    });
+
+    if (attempt.kind === 'busy' && forwardOnFailure) {
+      return this._forwardNode(this._buildJobPayload(), path, context, 'local_queue_full');
+    }
+
+    if (attempt.kind === 'response' && attempt.statusCode >= 200 && attempt.statusCode < 300) {
+      trace({ outcome: 'success', status_code: attempt.statusCode });
+      await this._runChained(this._onSuccessStep, joinPath(path, 'onSuccess'), context);
+      return { status: 'success', statusCode: attempt.statusCode, headers: attempt.headers, body: attempt.body };
+    }
+
+    const failure = attempt;
+    trace(describeAttempt(failure));
+
+    for (let i = 0; i < this._fallbackSteps.length; i++) {
+      const { step, trigger } = this._fallbackSteps[i];
+      if (deadlinePassed() || !matchesTrigger(trigger, failure)) continue;
+      throwIfAborted(context.signal);
+
+      const fallbackPath = joinPath(path, `fallback[${i}]`);
+      context.client.logger.debug('Fallback triggered', { path: fallbackPath, url: step._url, trigger });
+      context.client.hooks.emit('fallbackTriggered', {
+        path: fallbackPath,
+        url: step._url,
+        trigger,
+        failure: { url: this._url, kind: failure.kind, status_code: failure.kind === 'response' ? failure.statusCode : null },
+      });
+
+      if (step._stepType === StepType.PERFORMANCE) {
+        return this._forwardNode(this._buildRemainingChain(i), fallbackPath, context, 'performance');
       }
 
-      // Try this fallback locally
-      try {
-        // Only execute fallback if it's FRUGAL type
-        if (step._stepType === StepType.FRUGAL) {
-          const result = await step.execute(client);
-          // If fallback succeeded, return immediately
-          if (result.status === 'success') {
-            return result;
-          }
-        } else {
-          // PERFORMANCE fallback - can't execute locally, skip
-          continue;
-        }
-      } catch (error) {
-        // Fallback failed, try next one
-        continue;
+      const outcome = await step._runNode(fallbackPath, context, false);
+      if (outcome.status === 'success') {
+        await this._runChained(this._onSuccessStep, joinPath(path, 'onSuccess'), context);
+        return outcome;
+      }
+      if (outcome.status === 'forwarded') {
+        return outcome;
       }
     }
 
-    // All fallbacks failed
-    return null;
+    const retryable = failure.kind !== 'response' || this._fallbackOnError.includes(failure.statusCode);
+    if (forwardOnFailure && retryable && !deadlinePassed()) {
+      return this._forwardNode(this._buildJobPayload(), path, context, 'retryable_failure');
+    }
+
+    if (forwardOnFailure) {
+      await this._runOnFailure(path, context);
+    }
+    return { status: 'failed', failure };
+  }
+
+  /**
+   * Run onFailure, bounded by onFailureTimeout when set
+   */
+  private async _runOnFailure(path: string, context: WorkflowContext): Promise<void> {
+    if (!this._onFailureStep) return;
+
+    let deadline = context.deadline;
+    if (this._onFailureTimeoutMs !== null) {
+      const onFailureDeadline = Date.now() + this._onFailureTimeoutMs;
+      deadline = deadline === null ? onFailureDeadline : Math.min(deadline, onFailureDeadline);
+    }
+    await this._runChained(this._onFailureStep, joinPath(path, 'onFailure'), { ...context, deadline });
+  }
+
+  /**
+   * Run an onSuccess/onFailure node. Its errors are recorded in the trace
+   * rather than failing the node that already completed.
+   */
+  private async _runChained(step: Step | null, path: string, context: WorkflowContext): Promise<void> {
+    if (!step) return;
+
+    const startedAt = Date.now();
+    try {
+      await step._runNode(path, context);
+    } catch (error) {
+      if (error instanceof CancelledError) throw error;
+      context.trace.push({
+        path,
+        url: step._url,
+        location: 'ezthrottle',
+        outcome: 'error',
+        error: error instanceof Error ? error.message : String(error),
+        duration_ms: Date.now() - startedAt,
+      });
+    }
+  }
+
+  /**
+   * Submit a node (and everything chained to it) to EZThrottle
+   */
+  private async _forwardNode(
+    payload: JobPayload,
+    path: string,
+    context: WorkflowContext,
+    reason: NonNullable<StepTraceEntry['reason']>
+  ): Promise<NodeOutcome> {
+    throwIfAborted(context.signal);
+    const startedAt = Date.now();
+    const result = await context.client.submitJob(payload, { signal: context.signal });
+    context.trace.push({
+      path,
+      url: payload.url,
+      location: 'ezthrottle',
+      outcome: 'forwarded',
+      reason,
+      job_id: result.job_id ?? undefined,
+      duration_ms: Date.now() - startedAt,
+    });
+    context.client.logger.debug('Workflow node forwarded to EZThrottle', { path, url: payload.url, reason, job_id: result.job_id });
+    context.client.hooks.emit('forwarded', { path, url: payload.url, reason, job_id: result.job_id });
+    return { status: 'forwarded', result };
+  }
+
+  /**
+   * Job for fallbacks[start..] that finishes this step's workflow on EZThrottle:
+   * the remaining fallback chain, plus this step's onSuccess/onFailure unless
+   * the fallback declares its own
+   */
+  private _buildRemainingChain(start: number): JobPayload {
+    const payload = this._buildFallbackChain(start)!;
+    delete payload.trigger;
+
+    if (!payload.onSuccess && this._onSuccessStep) {
+      payload.onSuccess = this._onSuccessStep._buildJobPayload();
+    }
+    if (!payload.onFailure && this._onFailureStep) {
+      payload.onFailure = this._onFailureStep._buildJobPayload();
+      if (payload.onFailureTimeoutMs === undefined && this._onFailureTimeoutMs !== null) {
+        payload.onFailureTimeoutMs = this._onFailureTimeoutMs;
+      }
+    }
+    return payload;
   }
 
   /**
@@ -419,86 +1020,343 @@ export class Step implements IStep {
    *
    * For FRUGAL: Executes locally first, forwards to EZThrottle on error
    * For PERFORMANCE: Submits to EZThrottle immediately
+   *
+   * Resolves with a StepResult: LocalSuccess, LocalFailure or Queued
+   * (discriminated by `status`).
+   *
+   * With `{ awaitResult: true }`, jobs sent to EZThrottle resolve with their
+   * WebhookEvent (delivered through the client's WebhookCorrelator) instead
+   * of Queued. FRUGAL steps that complete locally return immediately.
+   *
+   * Pass `{ signal }` to cancel: the local request is aborted and no further
+   * fallbacks, chained steps or forwards start. It rejects with CancelledError.
+   *
+   * @throws {ValidationError} If validate() reports errors (see `error.issues`)
+   * @throws {CancelledError} If `options.signal` fires before the workflow finishes
    */
-  async execute(client: EZThrottle | null = null): Promise<any> {
+  execute(options: ExecuteOptions & { awaitResult: true }): Promise<LocalSuccess<T> | LocalFailure | WebhookEvent>;
+  execute(
+    client: EZThrottle | null,
+    options: ExecuteOptions & { awaitResult: true }
+  ): Promise<LocalSuccess<T> | LocalFailure | WebhookEvent>;
+  execute(
+    clientOrOptions?: EZThrottle | (ExecuteOptions & { awaitResult?: false }) | null,
+    options?: ExecuteOptions & { awaitResult?: false }
+  ): Promise<StepResult<T>>;
+  execute(
+    clientOrOptions?: EZThrottle | ExecuteOptions | null,
+    options?: ExecuteOptions
+  ): Promise<StepResult<T> | WebhookEvent>;
+  async execute(
+    clientOrOptions: EZThrottle | ExecuteOptions | null = null,
+    options: ExecuteOptions = {}
+  ): Promise<StepResult<T> | WebhookEvent> {
+    let client: EZThrottle | null = null;
+    if (isClient(clientOrOptions)) {
+      client = clientOrOptions;
+    } else if (clientOrOptions) {
+      options = clientOrOptions;
+    }
+
     const _client = client || this.client;
     if (!_client) {
       throw new Error('Client is required. Pass client to execute() or Step(client)');
     }
 
-    if (this._stepType === StepType.FRUGAL) {
-      return this._executeFrugal(_client);
-    } else {
-      return this._executePerformance(_client);
+    const validation = this.validate();
+    if (!validation.valid) {
+      const summary = validation.errors.map(issue => `${issue.path}: ${issue.message}`).join('; ');
+      throw new ValidationError(`Invalid step: ${summary}`, validation.errors);
+    }
+
+    throwIfAborted(options.signal);
+
+    if (options.awaitResult && !_client.correlator) {
+      throw new EZThrottleError(
+        'awaitResult requires a WebhookCorrelator. Pass { correlator } to new EZThrottle()'
+      );
+    }
+
+    const attributes = { 'ezthrottle.step_type': this._stepType, 'http.url': this._url || '' };
+    const result = await _client.telemetry.span('ezthrottle.step.execute', attributes, async span => {
+      _client.logger.debug('Executing step', { step_type: this._stepType, url: this._url });
+      const stepResult = await this._runOnce(_client, options);
+      _client.logger.debug('Step executed', {
+        url: this._url,
+        status: stepResult.status,
+        job_id: stepResult.status === 'queued' ? stepResult.job_id : null,
+        trace: stepResult.trace,
+      });
+      if (span) {
+        span.setAttribute('ezthrottle.status', stepResult.status);
+        if (stepResult.status === 'queued' && stepResult.job_id) span.setAttribute('ezthrottle.job_id', stepResult.job_id);
+      }
+      return stepResult;
+    });
+
+    if (!options.awaitResult || result.status !== 'queued') {
+      return result;
     }
+
+    if (!result.job_id && !result.idempotent_key) {
+      throw new EZThrottleError('No job_id in response');
+    }
+
+    return _client.correlator!.waitFor(
+      { jobId: result.job_id ?? undefined, idempotentKey: result.idempotent_key ?? undefined },
+      { timeoutMs: options.timeoutMs, signal: options.signal }
+    );
   }
 
   /**
-   * Execute FRUGAL workflow (local first, try fallbacks, then queue on error)
+   * Execute many steps with bounded concurrency and a per-item report
+   *
+   * Steps without their own client use `options.client`. Steps that succeed
+   * locally are reported as submitted (jobId null); local failures are hard
+   * failures (a JobFailedError, counted by stopOnError).
    */
-  private async _executeFrugal(client: EZThrottle): Promise<LocalExecutionResult | any> {
-    // Try primary step locally
-    try {
-      const response = await this._executeLocal();
+  static async executeAll(
+    steps: Step[],
+    options: BatchOptions & { client?: EZThrottle } = {}
+  ): Promise<BatchReport<Step>> {
+    const { client = null, ...batchOptions } = options;
+    return collectBatch(steps, async step => {
+      const result = await step.execute(client);
+      if (result.status === 'failed') throw localFailureError(result);
+      return result;
+    }, batchOptions);
+  }
 
-      // Success! Execute on_success and return
-      if (response.status >= 200 && response.status < 300) {
-        // Execute on_success workflow if present (async, don't wait)
-        if (this._onSuccessStep) {
-          setImmediate(() => this._onSuccessStep!.execute(client));
-        }
+  /**
+   * Execute the step and wait for its final response
+   *
+   * FRUGAL steps that complete locally resolve immediately. Jobs forwarded
+   * to EZThrottle (and all PERFORMANCE steps) are polled via getJob().
+   *
+   * @throws {JobFailedError} If the request fails locally or the job fails
+   * @throws {TimeoutError} If the job does not finish within `timeout` ms
+   */
+  async executeAndWait(client: EZThrottle | null = null, options: WaitOptions = {}): Promise<JobResponse> {
+    const _client = client || this.client;
+    if (!_client) {
+      throw new Error('Client is required. Pass client to executeAndWait() or Step(client)');
+    }
 
-        const body = await response.text();
-        return {
-          status: 'success',
-          executed_locally: true,
-          status_code: response.status,
-          response: body,
-        };
-      }
+    const result = await this.execute(_client, { signal: options.signal });
 
-      // Error - try fallback chain locally
-      if (this._fallbackOnError.includes(response.status)) {
-        const fallbackResult = await this._tryLocalFallbacks(client, response.status);
-        if (fallbackResult) {
-          return fallbackResult;
-        }
+    if (result.status === 'success') {
+      return { status_code: result.status_code, headers: result.headers, body: result.response };
+    }
+    if (result.status === 'failed') {
+      throw localFailureError(result);
+    }
 
-        // All fallbacks failed → forward to EZThrottle
-        return this._forwardToEZThrottle(client);
-      }
+    if (!result.job_id) {
+      throw new EZThrottleError(
+        result.submission.status === 'outboxed'
+          ? 'Job was outboxed; it has no job_id until EZThrottle is reachable again'
+          : 'No job_id in response'
+      );
+    }
 
-      // Non-trigger error - don't forward, just return error
-      return {
-        status: 'failed',
-        executed_locally: true,
-        status_code: response.status,
-        error: `Request failed: ${response.status}`,
-      };
-    } catch (error) {
-      // Network error or timeout → try fallbacks, then forward to EZThrottle
-      const fallbackResult = await this._tryLocalFallbacks(client, null);
-      if (fallbackResult) {
-        return fallbackResult;
-      }
+    return _client.waitForJob(result.job_id, options);
+  }
 
-      return this._forwardToEZThrottle(client);
+  /**
+   * Run this step on a schedule
+   *
+   * Occurrences are submitted ahead of time (see EZThrottleConfig.scheduler)
+   * as jobs with `retryAt` set to their time, so EZThrottle runs them on
+   * schedule. Each gets the idempotent key `<key>@<ISO time>`, where `<key>`
+   * is the step's idempotentKey or the schedule ID: submitting an occurrence
+   * twice, e.g. after a restart, never creates a second job.
+   *
+   * @param spec - Cron expression, or {cron | every, startAt, endAt, timezone}
+   * @param options - {client, id}
+   * @returns Handle with pause(), resume(), cancel() and info()
+   * @throws {ValidationError} If the spec or the step is invalid
+   *
+   * @example
+   * ```typescript
+   * const report = new Step(client).url('https://api.example.com/reports/daily').method('POST');
+   * const schedule = report.schedule({ cron: '0 9 * * MON-FRI', timezone: 'America/New_York' });
+   *
+   * new Step(client).url('https://api.example.com/sync').schedule({ every: '15m' });
+   * client.scheduler.list();
+   * ```
+   */
+  schedule(spec: ScheduleSpec, options: AddScheduleOptions & { client?: EZThrottle } = {}): Schedule {
+    const { client, ...scheduleOptions } = options;
+    const _client = client || this.client;
+    if (!_client) {
+      throw new Error('Client is required. Pass { client } to schedule() or Step(client)');
     }
+    return _client.scheduler.add(this, spec, scheduleOptions);
   }
 
   /**
-   * Forward job to EZThrottle
+   * Run the workflow, sharing the run with concurrent identical FRUGAL executions
+   * when the client has single-flight enabled
+   *
+   * Steps are identical when they have the same idempotent key (UNIQUE steps
+   * without a key never are). Each caller gets its own copy of the result.
    */
-  private async _forwardToEZThrottle(client: EZThrottle): Promise<any> {
-    const payload = this._buildJobPayload();
-    return client.submitJob(payload);
+  private async _runOnce(client: EZThrottle, options: ExecuteOptions): Promise<StepResult<T>> {
+    const key = client.singleFlight && options.singleFlight !== false && this._stepType === StepType.FRUGAL
+      ? this._singleFlightKey(client)
+      : null;
+    if (!key) {
+      return this._run(client, options.signal);
+    }
+
+    // Results cross the store as plain JSON: LocalSuccess.data is rebuilt per caller
+    const shared = await client.singleFlight!.run(
+      key,
+      async signal => ({ ...(await this._run(client, signal)) }),
+      options.signal
+    );
+    if (shared.status === 'success') {
+      return localSuccess(shared.status_code, shared.headers, shared.response, [...shared.trace], this._decoder);
+    }
+    return { ...shared, trace: [...shared.trace] };
+  }
+
+  // The submitted key, or for HASH steps the locally derived one: it never leaves the process
+  private _singleFlightKey(client: EZThrottle): string | null {
+    const key = this._computeIdempotentKey(client);
+    if (key || this._idempotentStrategy !== IdempotentStrategy.HASH) return key;
+    return deriveIdempotentKey(this._buildJobPayload());
   }
 
   /**
-   * Execute PERFORMANCE workflow (submit to EZThrottle immediately)
+   * Run the workflow (see _runNode for the semantics) and shape the StepResult
+   *
+   * The result includes a `trace` of every node that ran, and where.
    */
-  private async _executePerformance(client: EZThrottle): Promise<any> {
-    const payload = this._buildJobPayload();
-    return client.submitJob(payload);
+  private async _run(client: EZThrottle, signal?: AbortSignal): Promise<StepResult<T>> {
+    const trace: StepTraceEntry[] = [];
+    const outcome = await this._runNode('', { client, trace, deadline: null, signal });
+
+    if (outcome.status === 'forwarded') {
+      const submission = outcome.result;
+      return {
+        status: 'queued',
+        executed_locally: false,
+        job_id: submission.job_id,
+        idempotent_key: submission.idempotent_key ?? null,
+        submission,
+        trace,
+      };
+    }
+
+    if (outcome.status === 'success') {
+      return localSuccess(outcome.statusCode, outcome.headers, outcome.body, trace, this._decoder);
+    }
+
+    const { failure } = outcome;
+    return {
+      status: 'failed',
+      executed_locally: true,
+      status_code: failure.kind === 'response' ? failure.statusCode : 0,
+      headers: failure.kind === 'response' ? failure.headers : {},
+      response: failure.kind === 'response' ? failure.body : undefined,
+      error: describeAttempt(failure).error!,
+      trace,
+    };
+  }
+}
+
+/**
+ * Build a LocalSuccess whose `data` is decoded on first access
+ */
+function localSuccess<T>(
+  statusCode: number,
+  headers: Record<string, string>,
+  body: string,
+  trace: StepTraceEntry[],
+  decoder: ResponseDecoder<T> | null
+): LocalSuccess<T> {
+  const result = {
+    status: 'success',
+    executed_locally: true,
+    status_code: statusCode,
+    headers,
+    response: body,
+    trace,
+  } as LocalSuccess<T>;
+
+  let decoded: { value: T } | null = null;
+  Object.defineProperty(result, 'data', {
+    enumerable: false,
+    get: () => {
+      if (!decoded) {
+        decoded = {
+          value: decoder ? decoder(body, { status_code: statusCode, headers }) : JSON.parse(body),
+        };
+      }
+      return decoded.value;
+    },
+  });
+
+  return result;
+}
+
+function headersToObject(headers: TransportResponse['headers']): Record<string, string> {
+  const result: Record<string, string> = {};
+  if (typeof headers.forEach === 'function') {
+    headers.forEach((value, name) => {
+      result[name] = value;
+    });
   }
+  return result;
+}
+
+function joinPath(path: string, field: string): string {
+  return path ? `${path}.${field}` : field;
+}
+
+function matchesTrigger(trigger: Partial<FallbackTrigger>, failure: LocalAttempt): boolean {
+  if (!trigger.type) return true;
+  if (trigger.type === 'on_error') {
+    return failure.kind === 'response' && (trigger.codes || []).includes(failure.statusCode);
+  }
+  return failure.kind === 'timeout';
+}
+
+function describeAttempt(failure: LocalAttempt): Pick<StepTraceEntry, 'outcome' | 'status_code' | 'error'> {
+  switch (failure.kind) {
+    case 'response':
+      return { outcome: 'failed', status_code: failure.statusCode, error: `Request failed: ${failure.statusCode}` };
+    case 'timeout':
+      return { outcome: 'timeout', error: `Local request timed out after ${failure.timeoutMs}ms` };
+    case 'busy':
+      return { outcome: 'failed', error: 'Local rate limit queue is full' };
+    default:
+      return { outcome: 'error', error: failure.error instanceof Error ? failure.error.message : String(failure.error) };
+  }
+}
+
+function localFailureError(result: LocalFailure): JobFailedError {
+  return new JobFailedError(result.error, null, {
+    status_code: result.status_code,
+    headers: result.headers,
+    body: result.response,
+  });
+}
+
+function clone<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value));
+}
+
+function isHttpUrl(value: string): boolean {
+  try {
+    const { protocol } = new URL(value);
+    return protocol === 'http:' || protocol === 'https:';
+  } catch {
+    return false;
+  }
+}
+
+function isClient(value: unknown): value is EZThrottle {
+  return !!value && typeof (value as EZThrottle).submitJob === 'function';
 }
@@ -0,0 +1,139 @@
+/**
+ * Optional OpenTelemetry integration.
+ *
+ * The SDK does not depend on @opentelemetry/api; pass the module in
+ * (`telemetry: { api: require('@opentelemetry/api') }`) and spans are created
+ * for Step.execute, local requests and submitJob.
+ */
+
+import type { JobPayload, SubmitJobParams } from './types';
+
+type Attributes = Record<string, string | number | boolean>;
+
+/**
+ * The parts of a Span the SDK uses
+ */
+export interface SpanLike {
+  setAttribute(key: string, value: string | number | boolean): unknown;
+  setStatus(status: { code: number; message?: string }): unknown;
+  recordException(exception: any): unknown;
+  end(): void;
+}
+
+/**
+ * The parts of @opentelemetry/api the SDK uses
+ */
+export interface OpenTelemetryApiLike {
+  trace: {
+    getTracer(name: string, version?: string): {
+      startSpan(name: string, options?: { attributes?: Attributes }, context?: unknown): SpanLike;
+    };
+    setSpan(context: unknown, span: SpanLike): unknown;
+  };
+  context: {
+    active(): unknown;
+    with<T>(context: unknown, fn: () => T): T;
+  };
+  propagation: {
+    inject(context: unknown, carrier: Record<string, string>): void;
+  };
+}
+
+/**
+ * OpenTelemetry configuration
+ */
+export interface TelemetryOptions {
+  /** The @opentelemetry/api module */
+  api: OpenTelemetryApiLike;
+  /** Tracer name (default: 'ezthrottle') */
+  tracerName?: string;
+  /**
+   * Propagate the trace context (traceparent, tracestate): into the metadata
+   * of every submitted job, so webhooks echo it back, and onto proxy calls
+   * and FRUGAL local requests (default: false)
+   */
+  propagate?: boolean;
+  /** With propagate, also add it to the job's own headers so the target API sees it (default: false) */
+  propagateToJobHeaders?: boolean;
+}
+
+// SpanStatusCode values from @opentelemetry/api
+const STATUS_OK = 1;
+const STATUS_ERROR = 2;
+
+/**
+ * Telemetry - Span helper that is a no-op when OpenTelemetry is not configured
+ */
+export class Telemetry {
+  private api: OpenTelemetryApiLike | null;
+  private tracerName: string;
+  readonly propagate: boolean;
+  private propagateToJobHeaders: boolean;
+
+  constructor(options?: TelemetryOptions) {
+    this.api = options?.api ?? null;
+    this.tracerName = options?.tracerName ?? 'ezthrottle';
+    this.propagate = !!this.api && options?.propagate === true;
+    this.propagateToJobHeaders = this.propagate && options?.propagateToJobHeaders === true;
+  }
+
+  /**
+   * Run `fn` inside a span that is active for everything it awaits
+   */
+  async span<T>(name: string, attributes: Attributes, fn: (span: SpanLike | null) => Promise<T>): Promise<T> {
+    const api = this.api;
+    if (!api) return fn(null);
+
+    const parent = api.context.active();
+    const span = api.trace.getTracer(this.tracerName).startSpan(name, { attributes }, parent);
+
+    try {
+      const result = await api.context.with(api.trace.setSpan(parent, span), () => fn(span));
+      span.setStatus({ code: STATUS_OK });
+      return result;
+    } catch (error) {
+      span.recordException(error as Error);
+      span.setStatus({ code: STATUS_ERROR, message: error instanceof Error ? error.message : String(error) });
+      throw error;
+    } finally {
+      span.end();
+    }
+  }
+
+  /**
+   * W3C trace context headers (traceparent, tracestate) for the active span
+   */
+  traceContext(): Record<string, string> {
+    if (!this.api || !this.propagate) return {};
+    const carrier: Record<string, string> = {};
+    this.api.propagation.inject(this.api.context.active(), carrier);
+    return carrier;
+  }
+
+  /**
+   * `job` carrying the active trace context (unchanged without propagate)
+   */
+  traceJob<P extends SubmitJobParams | JobPayload>(job: P): P {
+    return withTraceContext(job, this.traceContext(), this.propagateToJobHeaders);
+  }
+}
+
+/**
+ * Copy of a job (and its nested jobs) carrying the trace context in its
+ * metadata, so the webhook echoes it back, and optionally in its headers,
+ * so the target sees it. Values the caller already set win.
+ */
+export function withTraceContext<P extends SubmitJobParams | JobPayload>(
+  job: P,
+  traceContext: Record<string, string>,
+  headers: boolean = false
+): P {
+  if (!traceContext.traceparent) return job;
+
+  const traced: P = { ...job, metadata: { ...traceContext, ...job.metadata } };
+  if (headers) traced.headers = { ...traceContext, ...job.headers };
+  if (job.fallbackJob) traced.fallbackJob = withTraceContext(job.fallbackJob, traceContext, headers);
+  if (job.onSuccess) traced.onSuccess = withTraceContext(job.onSuccess, traceContext, headers);
+  if (job.onFailure) traced.onFailure = withTraceContext(job.onFailure, traceContext, headers);
+  return traced;
+}
@@ -0,0 +1,144 @@
+/**
+ * Known-answer vectors for the HASH strategy key (IDEMPOTENCY_ALGORITHM).
+ *
+ * Each vector spells out its canonical request by hand and the key is the
+ * SHA-256 of that string, so a change to canonicalRequest() shows up as a
+ * mismatch instead of new expected values. They pin the format SDKs send
+ * with `sendIdempotentKeys` (or a namespace) across versions and ports; they
+ * don't show that EZThrottle's own hash of a request is the same key.
+ */
+
+import { deriveIdempotentKey, IdempotencyInput } from '../idempotency';
+
+/**
+ * One request and the key every implementation must derive for it
+ */
+export interface IdempotencyTestVector {
+  name: string;
+  input: IdempotencyInput;
+  /** Expected canonicalRequest(input) */
+  canonical: string;
+  /** SHA-256 hex of `canonical` */
+  key: string;
+}
+
+/**
+ * A vector an implementation got wrong
+ */
+export interface IdempotencyVectorMismatch {
+  name: string;
+  expected: string;
+  actual: string | null;
+  error?: unknown;
+}
+
+type CanonicalFields = [method: string, url: string, headers: Array<[string, string]>, body: string];
+
+const vector = (name: string, input: IdempotencyInput, fields: CanonicalFields, key: string): IdempotencyTestVector =>
+  Object.freeze({
+    name,
+    input: Object.freeze(input),
+    canonical: JSON.stringify(['ezthrottle-idempotency-v1', ...fields]),
+    key,
+  });
+
+/**
+ * Vectors come in groups that must share a key (same request, different
+ * spelling) and singles that must not
+ */
+export const IDEMPOTENCY_TEST_VECTORS: ReadonlyArray<IdempotencyTestVector> = Object.freeze([
+  vector('GET, no headers or body', { url: 'https://api.example.com/users' },
+    ['GET', 'https://api.example.com/users', [], ''],
+    'b9e9d3d10e9ef86c3f673cc16a8541a64e7a59559e433fa897f7abb6aecfb2de'),
+  vector('method defaults to GET', { url: 'https://api.example.com/users', method: 'get' },
+    ['GET', 'https://api.example.com/users', [], ''],
+    'b9e9d3d10e9ef86c3f673cc16a8541a64e7a59559e433fa897f7abb6aecfb2de'),
+  vector('scheme and host are case-insensitive, default port and fragment dropped',
+    { url: 'HTTPS://API.Example.com:443/users#top' },
+    ['GET', 'https://api.example.com/users', [], ''],
+    'b9e9d3d10e9ef86c3f673cc16a8541a64e7a59559e433fa897f7abb6aecfb2de'),
+  vector('path is case-sensitive', { url: 'https://api.example.com/Users' },
+    ['GET', 'https://api.example.com/Users', [], ''],
+    '91a28cfbd11af461dc6184d8b2be3f597f5d0e85b4dbf90cd9edabee77238b98'),
+  vector('query parameters sorted by name',
+    { url: 'https://api.example.com/search?q=shoes&page=2&page=3' },
+    ['GET', 'https://api.example.com/search?page=2&page=3&q=shoes', [], ''],
+    '760a8b1e6464b7ac178b0e70179ec3618bb24c3a1cbcd4d5d25b973d16c7bb75'),
+  vector('same query, different order',
+    { url: 'https://api.example.com/search?page=2&q=shoes&page=3' },
+    ['GET', 'https://api.example.com/search?page=2&page=3&q=shoes', [], ''],
+    '760a8b1e6464b7ac178b0e70179ec3618bb24c3a1cbcd4d5d25b973d16c7bb75'),
+  vector('repeated parameter order is significant',
+    { url: 'https://api.example.com/search?q=shoes&page=3&page=2' },
+    ['GET', 'https://api.example.com/search?page=3&page=2&q=shoes', [], ''],
+    '4b19d9bd3613ae762b8e3e6fba8a42739a43fb3ab3d590008a73003f554caa40'),
+  vector('POST with JSON body', {
+    url: 'https://api.example.com/orders',
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: '{"sku":"A-1","qty":2,"shipping":{"zip":"10001","express":false}}',
+  }, ['POST', 'https://api.example.com/orders', [['content-type', 'application/json']],
+    '{"qty":2,"shipping":{"express":false,"zip":"10001"},"sku":"A-1"}'],
+  '073d0b448ae5bef0dcdb368a25376a47fd4b6a8c1e1ac23d9302f552b99805f5'),
+  vector('JSON key order and whitespace ignored, volatile headers excluded', {
+    url: 'https://api.example.com/orders',
+    method: 'post',
+    headers: {
+      'content-type': ' application/json ',
+      Authorization: 'Bearer sk_live_123',
+      traceparent: '00-0af7651916cd43dd8448eb211c80319c-b7ad6b7169203331-01',
+      'X-Request-Id': 'req_1',
+    },
+    body: '{ "shipping": { "express": false, "zip": "10001" }, "qty": 2, "sku": "A-1" }',
+  }, ['POST', 'https://api.example.com/orders', [['content-type', 'application/json']],
+    '{"qty":2,"shipping":{"express":false,"zip":"10001"},"sku":"A-1"}'],
+  '073d0b448ae5bef0dcdb368a25376a47fd4b6a8c1e1ac23d9302f552b99805f5'),
+  vector('non-volatile header changes the key', {
+    url: 'https://api.example.com/orders',
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'Idempotency-Tenant': 'acme' },
+    body: '{"sku":"A-1","qty":2,"shipping":{"zip":"10001","express":false}}',
+  }, ['POST', 'https://api.example.com/orders',
+    [['content-type', 'application/json'], ['idempotency-tenant', 'acme']],
+    '{"qty":2,"shipping":{"express":false,"zip":"10001"},"sku":"A-1"}'],
+  '59c272ab8204bc352e2223d89fd067e26863c7f681af71f88bf33efc3d2b8ef8'),
+  vector('non-JSON body hashed as is', {
+    url: 'https://api.example.com/form',
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body: 'b=2&a=1',
+  }, ['POST', 'https://api.example.com/form', [['content-type', 'application/x-www-form-urlencoded']], 'b=2&a=1'],
+  'dfce753cd05f7612f001cb30cd7837694d82562661bfc98c24572b3647eca163'),
+  vector('unicode body', {
+    url: 'https://api.example.com/messages',
+    method: 'PUT',
+    body: '{"text":"héllo wörld ✓"}',
+  }, ['PUT', 'https://api.example.com/messages', [], '{"text":"héllo wörld ✓"}'],
+  '33a927fe930e47ea9765bb56c43aae9334b9c6d03e911ccbafd7eff58004b667'),
+]);
+
+/**
+ * Run every vector through an implementation (default: deriveIdempotentKey)
+ *
+ * @returns The vectors it got wrong; empty when it derives every expected key
+ *
+ * @example
+ * ```typescript
+ * // Check a port of the algorithm (e.g. another SDK's) exposed to Node
+ * assert.deepStrictEqual(checkIdempotencyVectors(input => port.hashKey(input)), []);
+ * ```
+ */
+export function checkIdempotencyVectors(
+  derive: (input: IdempotencyInput) => string = input => deriveIdempotentKey(input)
+): IdempotencyVectorMismatch[] {
+  const mismatches: IdempotencyVectorMismatch[] = [];
+  for (const { name, input, key } of IDEMPOTENCY_TEST_VECTORS) {
+    try {
+      const actual = derive(input);
+      if (actual !== key) mismatches.push({ name, expected: key, actual });
+    } catch (error) {
+      mismatches.push({ name, expected: key, actual: null, error });
+    }
+  }
+  return mismatches;
+}
@@ -0,0 +1,708 @@
+/**
+ * In-memory EZThrottle / TrackTags stand-in for offline tests.
+ *
+ * import { createTestServer } from 'ezthrottle/testing';
+ */
+
+import * as http from 'http';
+import type { AddressInfo, Socket } from 'net';
+import fetch from 'node-fetch';
+import { EZThrottle } from '../client';
+import { EZThrottleConfig, JobPayload, JobState, JobStatus, JobResponse } from '../types';
+import { deriveIdempotentKey } from '../idempotency';
+import { decodeJobPayload, WireJobPayload } from '../wire';
+import { signWebhookPayload } from '../webhookUtils';
+
+export { IDEMPOTENCY_TEST_VECTORS, checkIdempotencyVectors } from './idempotencyVectors';
+export type { IdempotencyTestVector, IdempotencyVectorMismatch } from './idempotencyVectors';
+
+/**
+ * Request the simulated job executes against the target API
+ */
+export interface TargetRequest {
+  url: string;
+  method: string;
+  headers: Record<string, string>;
+  body?: string;
+  region: string;
+  /** 1-based attempt number within the job */
+  attempt: number;
+  jobId: string;
+}
+
+/**
+ * Simulated target response
+ */
+export interface TargetResponse {
+  status_code: number;
+  headers?: Record<string, string>;
+  body?: string;
+}
+
+/**
+ * Options for createTestServer()
+ */
+export interface TestServerOptions {
+  /** Port to listen on (default: random free port) */
+  port?: number;
+  /** API key accepted in the Authorization header (default: 'test_api_key') */
+  apiKey?: string;
+  /** Regions used for jobs that do not set any (default: ['iad', 'lax', 'ord']) */
+  regions?: string[];
+  /** Webhook secret configured up front (default: none; create via createWebhookSecret()) */
+  webhookSecret?: string;
+  /** Delay before a queued job executes in milliseconds (default: 0) */
+  executeDelayMs?: number;
+  /** Simulated target API; by default jobs perform real HTTP requests */
+  target?: (request: TargetRequest) => TargetResponse | Promise<TargetResponse>;
+}
+
+/**
+ * A webhook the test server delivered (or tried to deliver)
+ */
+export interface WebhookDelivery {
+  job_id: string;
+  url: string;
+  region: string;
+  payload: Record<string, any>;
+  signature: string | null;
+  /** Status returned by the webhook receiver, or null if delivery failed */
+  status_code: number | null;
+  error: string | null;
+  delivered_at: number;
+}
+
+interface Job extends JobStatus {
+  payload: JobPayload;
+}
+
+interface AttemptResult {
+  response: JobResponse;
+  region: string;
+  timedOut: boolean;
+}
+
+const TERMINAL_STATES: JobState[] = ['success', 'failed', 'cancelled'];
+const DEFAULT_RETRY_CODES = [429, 500, 502, 503, 504];
+
+/**
+ * EZThrottleTestServer - Local HTTP server speaking the TrackTags proxy envelope
+ * and EZThrottle's /api/v1/jobs and /api/v1/webhook-secrets APIs
+ *
+ * Jobs really execute (retries, regions, fallback_job chains, on_success /
+ * on_failure) and signed webhooks are delivered to the URLs you configure.
+ */
+export class EZThrottleTestServer {
+  private options: Required<Omit<TestServerOptions, 'target' | 'webhookSecret' | 'port'>> & TestServerOptions;
+  private server: http.Server;
+  private sockets: Set<Socket>;
+  private timers: Set<NodeJS.Timeout>;
+  private jobsById: Map<string, Job>;
+  private jobsByKey: Map<string, string>;
+  private secrets: { primary: string; secondary: string | null } | null;
+  private deliveries: WebhookDelivery[];
+  private deliveryListeners: Array<(delivery: WebhookDelivery) => void>;
+  private jobCounter: number;
+
+  // Fault injection state
+  private rateLimitRemaining: number;
+  private rateLimitRetryAfter: number;
+  private denyRemaining: number;
+  private denyReason: string;
+  private proxyDown: boolean;
+  private webhookDelayMs: number;
+
+  constructor(options: TestServerOptions = {}) {
+    this.options = {
+      apiKey: 'test_api_key',
+      regions: ['iad', 'lax', 'ord'],
+      executeDelayMs: 0,
+      ...options,
+    };
+    this.sockets = new Set();
+    this.timers = new Set();
+    this.jobsById = new Map();
+    this.jobsByKey = new Map();
+    this.secrets = options.webhookSecret ? { primary: options.webhookSecret, secondary: null } : null;
+    this.deliveries = [];
+    this.deliveryListeners = [];
+    this.jobCounter = 0;
+    this.rateLimitRemaining = 0;
+    this.rateLimitRetryAfter = 1;
+    this.denyRemaining = 0;
+    this.denyReason = 'denied';
+    this.proxyDown = false;
+    this.webhookDelayMs = 0;
+
+    this.server = http.createServer((req, res) => {
+      this.handle(req, res).catch(error => {
+        sendJson(res, 500, { error: error instanceof Error ? error.message : String(error) });
+      });
+    });
+    this.server.on('connection', socket => {
+      this.sockets.add(socket);
+      socket.on('close', () => this.sockets.delete(socket));
+    });
+  }
+
+  /**
+   * Base URL of the running server (use as tracktagsUrl and ezthrottleUrl)
+   */
+  get url(): string {
+    const address = this.server.address() as AddressInfo | null;
+    if (!address) {
+      throw new Error('Test server is not running. Call start() first.');
+    }
+    return `http://127.0.0.1:${address.port}`;
+  }
+
+  /**
+   * All jobs created so far, oldest first
+   */
+  get jobs(): JobStatus[] {
+    return Array.from(this.jobsById.values()).map(toJobStatus);
+  }
+
+  /**
+   * All webhook deliveries so far, in delivery order
+   */
+  get webhooks(): WebhookDelivery[] {
+    return [...this.deliveries];
+  }
+
+  async start(): Promise<this> {
+    await new Promise<void>((resolve, reject) => {
+      this.server.once('error', reject);
+      this.server.listen(this.options.port || 0, '127.0.0.1', () => resolve());
+    });
+    return this;
+  }
+
+  async stop(): Promise<void> {
+    this.timers.forEach(timer => clearTimeout(timer));
+    this.timers.clear();
+    this.sockets.forEach(socket => socket.destroy());
+    await new Promise<void>(resolve => this.server.close(() => resolve()));
+  }
+
+  /**
+   * EZThrottle client pointed at this server
+   */
+  client(config: Partial<EZThrottleConfig> = {}): EZThrottle {
+    return new EZThrottle({
+      apiKey: this.options.apiKey,
+      tracktagsUrl: this.url,
+      ezthrottleUrl: this.url,
+      ...config,
+    });
+  }
+
+  // ==========================================================================
+  // FAULT INJECTION
+  // ==========================================================================
+
+  /**
+   * Answer the next `count` proxy requests with 429 and Retry-After
+   */
+  injectRateLimit(count: number = 1, retryAfterSeconds: number = 1): this {
+    this.rateLimitRemaining = count;
+    this.rateLimitRetryAfter = retryAfterSeconds;
+    return this;
+  }
+
+  /**
+   * Deny the next `count` proxy requests ({status: 'denied'})
+   */
+  injectDenial(count: number = 1, reason: string = 'quota_exceeded'): this {
+    this.denyRemaining = count;
+    this.denyReason = reason;
+    return this;
+  }
+
+  /**
+   * Drop every proxy connection (clients see a network error) until set back to false
+   */
+  setProxyDown(down: boolean): this {
+    this.proxyDown = down;
+    return this;
+  }
+
+  /**
+   * Delay every webhook delivery by `ms`
+   */
+  setWebhookDelay(ms: number): this {
+    this.webhookDelayMs = ms;
+    return this;
+  }
+
+  resetFaults(): this {
+    this.rateLimitRemaining = 0;
+    this.denyRemaining = 0;
+    this.proxyDown = false;
+    this.webhookDelayMs = 0;
+    return this;
+  }
+
+  /**
+   * Resolve with the next delivery for `jobId` (or the first one already delivered)
+   */
+  waitForWebhook(jobId: string, timeoutMs: number = 5000): Promise<WebhookDelivery> {
+    const existing = this.deliveries.find(d => d.job_id === jobId);
+    if (existing) return Promise.resolve(existing);
+
+    return new Promise((resolve, reject) => {
+      const listener = (delivery: WebhookDelivery) => {
+        if (delivery.job_id !== jobId) return;
+        clearTimeout(timer);
+        this.deliveryListeners = this.deliveryListeners.filter(l => l !== listener);
+        resolve(delivery);
+      };
+      const timer = setTimeout(() => {
+        this.deliveryListeners = this.deliveryListeners.filter(l => l !== listener);
+        reject(new Error(`No webhook for ${jobId} within ${timeoutMs}ms`));
+      }, timeoutMs);
+      this.deliveryListeners.push(listener);
+    });
+  }
+
+  // ==========================================================================
+  // HTTP ROUTING
+  // ==========================================================================
+
+  private async handle(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const requestUrl = new URL(req.url || '/', 'http://localhost');
+    const body = await readBody(req);
+
+    if (requestUrl.pathname === '/api/v1/proxy' && req.method === 'POST') {
+      return this.handleProxy(req, res, body);
+    }
+
+    // EZThrottle API served directly (without the proxy envelope)
+    const { status_code, body: responseBody } = this.route(req.method || 'GET', requestUrl, body);
+    res.writeHead(status_code, { 'Content-Type': 'application/json' });
+    res.end(responseBody);
+  }
+
+  private handleProxy(req: http.IncomingMessage, res: http.ServerResponse, body: string): void {
+    if (this.proxyDown) {
+      req.socket.destroy();
+      return;
+    }
+
+    if (req.headers.authorization !== `Bearer ${this.options.apiKey}`) {
+      return sendJson(res, 401, { error: 'invalid_api_key' });
+    }
+
+    if (this.rateLimitRemaining > 0) {
+      this.rateLimitRemaining--;
+      res.setHeader('Retry-After', String(this.rateLimitRetryAfter));
+      return sendJson(res, 429, {
+        error: 'rate_limited',
+        retry_at: Date.now() + this.rateLimitRetryAfter * 1000,
+      });
+    }
+
+    if (this.denyRemaining > 0) {
+      this.denyRemaining--;
+      return sendJson(res, 200, { status: 'denied', error: this.denyReason });
+    }
+
+    let envelope: Record<string, any>;
+    try {
+      envelope = JSON.parse(body);
+    } catch {
+      return sendJson(res, 400, { error: 'invalid_envelope' });
+    }
+
+    const target = new URL(envelope.target_url);
+    const forwarded = this.route(envelope.method || 'GET', target, envelope.body || '');
+    sendJson(res, 200, { status: 'allowed', forwarded_response: forwarded });
+  }
+
+  private route(method: string, url: URL, body: string): { status_code: number; body: string } {
+    const respond = (status_code: number, data: unknown) => ({ status_code, body: JSON.stringify(data) });
+    const path = url.pathname;
+
+    if (path === '/api/v1/jobs' && method === 'POST') {
+      let wire: WireJobPayload | null;
+      try {
+        wire = JSON.parse(body);
+      } catch {
+        return respond(400, { error: 'invalid_json' });
+      }
+      if (!wire || !wire.url) {
+        return respond(422, { error: 'url is required' });
+      }
+      return respond(201, this.createJob(decodeJobPayload(wire)));
+    }
+
+    if (path === '/api/v1/jobs' && method === 'GET') {
+      return respond(200, this.listJobs(url.searchParams));
+    }
+
+    const jobMatch = path.match(/^\/api\/v1\/jobs\/([^/]+)$/);
+    if (jobMatch) {
+      const job = this.jobsById.get(decodeURIComponent(jobMatch[1]));
+      if (!job) return respond(404, { error: 'job_not_found' });
+
+      if (method === 'GET') return respond(200, toJobStatus(job));
+      if (method === 'DELETE') {
+        if (TERMINAL_STATES.includes(job.status)) {
+          return respond(409, { error: `job already ${job.status}` });
+        }
+        this.setStatus(job, 'cancelled');
+        return respond(200, { job_id: job.job_id, status: 'cancelled' });
+      }
+    }
+
+    if (path === '/api/v1/webhook-secrets') {
+      if (method === 'POST') {
+        const data = JSON.parse(body || '{}');
+        this.secrets = { primary: data.primary_secret, secondary: data.secondary_secret || null };
+        return respond(200, { status: 'ok', message: 'Webhook secrets saved' });
+      }
+      if (method === 'GET') {
+        if (!this.secrets) return respond(404, { error: 'no_webhook_secrets' });
+        return respond(200, {
+          customer_id: 'cust_test',
+          primary_secret: mask(this.secrets.primary),
+          secondary_secret: this.secrets.secondary ? mask(this.secrets.secondary) : null,
+          has_secondary: !!this.secrets.secondary,
+        });
+      }
+      if (method === 'DELETE') {
+        this.secrets = null;
+        return respond(200, { status: 'ok', message: 'Webhook secrets deleted' });
+      }
+    }
+
+    return respond(404, { error: 'not_found' });
+  }
+
+  // ==========================================================================
+  // JOB SIMULATION
+  // ==========================================================================
+
+  private createJob(payload: JobPayload): Record<string, any> {
+    const idempotentKey = payload.idempotentKey || deriveIdempotentKey(payload);
+
+    const existingId = this.jobsByKey.get(idempotentKey);
+    if (existingId) {
+      const existing = this.jobsById.get(existingId)!;
+      return { job_id: existing.job_id, idempotent_key: idempotentKey, status: existing.status, duplicate: true };
+    }
+
+    const now = Date.now();
+    const job: Job = {
+      job_id: `job_${now}_${++this.jobCounter}`,
+      status: 'queued',
+      idempotent_key: idempotentKey,
+      attempts: 0,
+      metadata: payload.metadata || {},
+      created_at: now,
+      updated_at: now,
+      payload,
+    };
+    this.jobsById.set(job.job_id, job);
+    this.jobsByKey.set(idempotentKey, job.job_id);
+
+    const delay = Math.max(this.options.executeDelayMs, (payload.retryAt || 0) - now);
+    this.schedule(() => this.runJob(job), delay);
+
+    return { job_id: job.job_id, idempotent_key: idempotentKey, status: 'queued' };
+  }
+
+  private listJobs(params: URLSearchParams): Record<string, any> {
+    let jobs = Array.from(this.jobsById.values()).reverse();
+
+    const status = params.get('status');
+    const key = params.get('idempotent_key');
+    const since = params.get('since');
+    if (status) jobs = jobs.filter(job => job.status === status);
+    if (key) jobs = jobs.filter(job => job.idempotent_key === key);
+    if (since) jobs = jobs.filter(job => (job.created_at || 0) >= Number(since));
+
+    const offset = Number(params.get('cursor') || 0);
+    const limit = Number(params.get('limit') || 50);
+    const page = jobs.slice(offset, offset + limit);
+    const hasMore = offset + limit < jobs.length;
+
+    return {
+      jobs: page.map(toJobStatus),
+      next_cursor: hasMore ? String(offset + limit) : null,
+      has_more: hasMore,
+    };
+  }
+
+  private async runJob(job: Job): Promise<void> {
+    if (isCancelled(job)) return;
+    this.setStatus(job, 'running');
+
+    const { payload } = job;
+    const results = await this.executeWithFallbacks(job, payload);
+    // Cancelled while the target was being called
+    if (isCancelled(job)) return;
+
+    const final = results.find(r => isSuccess(r.response.status_code)) || results[results.length - 1];
+    job.region = final.region;
+    job.response = final.response;
+    if (isSuccess(final.response.status_code)) {
+      this.setStatus(job, 'success');
+      if (payload.onSuccess) this.createJob(payload.onSuccess);
+    } else {
+      job.error = final.timedOut ? 'timeout' : `status ${final.response.status_code}`;
+      this.setStatus(job, 'failed');
+      if (payload.onFailure) this.createJob(payload.onFailure);
+    }
+
+    // Fanout delivers one webhook per region; race delivers the winner
+    const webhookResults = payload.executionMode === 'fanout' ? results : [final];
+    for (const result of webhookResults) {
+      this.deliverWebhooks(job, payload, result);
+    }
+  }
+
+  /**
+   * Execute a node and walk its fallbackJob chain while triggers match
+   */
+  private async executeWithFallbacks(job: Job, node: JobPayload): Promise<AttemptResult[]> {
+    const fallback = node.fallbackJob;
+    const timeoutMs = fallback?.trigger?.type === 'on_timeout' ? fallback.trigger.timeout_ms : undefined;
+    const results = await this.executeInRegions(job, node, timeoutMs);
+
+    const winner = results.find(r => isSuccess(r.response.status_code));
+    if (winner || !fallback) {
+      return results;
+    }
+
+    const last = results[results.length - 1];
+    const trigger = fallback.trigger || {};
+    const shouldFallback =
+      !trigger.type ||
+      (trigger.type === 'on_timeout' && last.timedOut) ||
+      (trigger.type === 'on_error' && (trigger.codes || []).includes(last.response.status_code));
+
+    return shouldFallback ? this.executeWithFallbacks(job, fallback) : results;
+  }
+
+  private async executeInRegions(job: Job, node: JobPayload, timeoutMs?: number): Promise<AttemptResult[]> {
+    const regions: string[] = node.regions && node.regions.length > 0
+      ? node.regions
+      : [this.options.regions[0]];
+
+    if (node.executionMode === 'fanout') {
+      return Promise.all(regions.map(region => this.executeWithRetries(job, node, region, timeoutMs)));
+    }
+
+    // Race: all regions at once, first success wins
+    const results = await Promise.all(regions.map(region => this.executeWithRetries(job, node, region, timeoutMs)));
+    const winner = results.find(r => isSuccess(r.response.status_code));
+    return [winner || results[results.length - 1]];
+  }
+
+  private async executeWithRetries(
+    job: Job,
+    node: JobPayload,
+    region: string,
+    timeoutMs?: number
+  ): Promise<AttemptResult> {
+    const policy = node.retryPolicy || {};
+    const maxRetries: number = policy.max_retries ?? 0;
+    const retryCodes: number[] = policy.retry_codes || DEFAULT_RETRY_CODES;
+
+    let result: AttemptResult;
+    let retries = 0;
+    for (;;) {
+      job.attempts = (job.attempts || 0) + 1;
+      result = await this.attempt(job, node, region, timeoutMs);
+      if (isSuccess(result.response.status_code) || result.timedOut) break;
+      if (retries >= maxRetries || !retryCodes.includes(result.response.status_code)) break;
+      retries++;
+    }
+    return result;
+  }
+
+  private async attempt(
+    job: Job,
+    node: JobPayload,
+    region: string,
+    timeoutMs?: number
+  ): Promise<AttemptResult> {
+    const request: TargetRequest = {
+      url: node.url,
+      method: node.method || 'GET',
+      headers: node.headers || {},
+      body: node.body,
+      region,
+      attempt: job.attempts || 1,
+      jobId: job.job_id,
+    };
+
+    const execution = this.options.target
+      ? Promise.resolve(this.options.target(request))
+      : performRequest(request);
+
+    if (!timeoutMs) {
+      return { response: await toResponse(execution), region, timedOut: false };
+    }
+
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<null>(resolve => { timer = setTimeout(() => resolve(null), timeoutMs); });
+    const response = await Promise.race([toResponse(execution), timeout]);
+    clearTimeout(timer!);
+
+    return response
+      ? { response, region, timedOut: false }
+      : { response: { status_code: 0, headers: {}, body: '' }, region, timedOut: true };
+  }
+
+  private deliverWebhooks(job: Job, payload: JobPayload, result: AttemptResult): void {
+    const webhooks = payload.webhooks || [];
+    const body = {
+      job_id: job.job_id,
+      idempotent_key: job.idempotent_key,
+      status: isSuccess(result.response.status_code) ? 'success' : 'failed',
+      region: result.region,
+      response: result.response,
+      metadata: payload.metadata || {},
+    };
+
+    for (const webhook of webhooks) {
+      this.schedule(() => this.deliver(webhook.url, job.job_id, result.region, body), this.webhookDelayMs);
+    }
+  }
+
+  private async deliver(url: string, jobId: string, region: string, payload: Record<string, any>): Promise<void> {
+    const rawBody = JSON.stringify(payload);
+    // Sign with every active secret, like EZThrottle during rotation
+    const signature = this.secrets
+      ? signWebhookPayload(rawBody, [this.secrets.primary, ...(this.secrets.secondary ? [this.secrets.secondary] : [])])
+      : null;
+
+    const delivery: WebhookDelivery = {
+      job_id: jobId,
+      url,
+      region,
+      payload,
+      signature,
+      status_code: null,
+      error: null,
+      delivered_at: Date.now(),
+    };
+
+    try {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(signature ? { 'X-EZThrottle-Signature': signature } : {}),
+        },
+        body: rawBody,
+      });
+      delivery.status_code = response.status;
+    } catch (error) {
+      delivery.error = error instanceof Error ? error.message : String(error);
+    }
+
+    this.deliveries.push(delivery);
+    this.deliveryListeners.forEach(listener => listener(delivery));
+  }
+
+  private setStatus(job: Job, status: JobState): void {
+    job.status = status;
+    job.updated_at = Date.now();
+  }
+
+  private schedule(fn: () => unknown, delayMs: number): void {
+    const timer = setTimeout(() => {
+      this.timers.delete(timer);
+      Promise.resolve(fn()).catch(() => undefined);
+    }, Math.max(0, delayMs));
+    this.timers.add(timer);
+  }
+}
+
+/**
+ * Create and start a test server.
+ *
+ * @example
+ * ```typescript
+ * import { createTestServer } from 'ezthrottle/testing';
+ *
+ * const server = await createTestServer({
+ *   webhookSecret: 'test_secret_min_16_chars',
+ *   target: ({ attempt }) => attempt < 3 ? { status_code: 503 } : { status_code: 200, body: '{"ok":true}' },
+ * });
+ * const client = server.client();
+ *
+ * const { job_id } = await client.submitJob({
+ *   url: 'https://api.example.com/charge',
+ *   retryPolicy: { max_retries: 3 },
+ *   webhooks: [{ url: 'http://127.0.0.1:4000/webhook' }],
+ * });
+ * const delivery = await server.waitForWebhook(job_id);
+ *
+ * server.injectRateLimit(2);   // next two proxy calls get 429
+ * server.setProxyDown(true);   // client sees NetworkError
+ *
+ * await server.stop();
+ * ```
+ */
+export async function createTestServer(options: TestServerOptions = {}): Promise<EZThrottleTestServer> {
+  return new EZThrottleTestServer(options).start();
+}
+
+function toJobStatus(job: Job): JobStatus {
+  const { payload, ...status } = job;
+  return { ...status };
+}
+
+function isCancelled(job: Job): boolean {
+  return job.status === 'cancelled';
+}
+
+function isSuccess(statusCode: number): boolean {
+  return statusCode >= 200 && statusCode < 300;
+}
+
+function mask(secret: string): string {
+  return secret.length <= 8 ? '****' : `${secret.slice(0, 4)}****${secret.slice(-3)}`;
+}
+
+async function performRequest(request: TargetRequest): Promise<TargetResponse> {
+  try {
+    const response = await fetch(request.url, {
+      method: request.method,
+      headers: request.headers,
+      body: request.body || undefined,
+    });
+    const headers: Record<string, string> = {};
+    response.headers.forEach((value, name) => { headers[name] = value; });
+    return { status_code: response.status, headers, body: await response.text() };
+  } catch (error) {
+    return { status_code: 0, body: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+async function toResponse(execution: Promise<TargetResponse>): Promise<JobResponse> {
+  const response = await execution;
+  return {
+    status_code: response.status_code,
+    headers: response.headers || {},
+    body: response.body || '',
+  };
+}
+
+function readBody(req: http.IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk: Buffer) => chunks.push(chunk));
+    req.on('end', () => resolve(Buffer.concat(chunks).toString('utf-8')));
+    req.on('error', reject);
+  });
+}
+
+function sendJson(res: http.ServerResponse, statusCode: number, data: unknown): void {
+  res.writeHead(statusCode, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(data));
+}
@@ -1,6 +1,17 @@
 import { StepType } from './stepType';
 import { IdempotentStrategy } from './idempotentStrategy';
 import type { Step } from './step';
+import type { WebhookCorrelator } from './webhookCorrelator';
+import type { WebhookEvent } from './webhookHandler';
+import type { FetchLike, Transport, TransportOptions } from './transport';
+import type { LocalRateLimitOptions } from './rateLimiter';
+import type { OutboxAck, OutboxOptions } from './outbox';
+import type { EZThrottleHooks } from './hooks';
+import type { TelemetryOptions } from './telemetry';
+import type { Logger, RedactOptions } from './logger';
+import type { MetricsOptions } from './metrics';
+import type { SchedulerOptions } from './scheduler';
+import type { SingleFlightOptions } from './singleFlight';
 
 /**
  * Webhook configuration
@@ -51,6 +62,124 @@ export interface JobPayload {
   onFailureTimeoutMs?: number;
   idempotentKey?: string;
   retryAt?: number;
+  /** When this job runs as a fallback (fallback chains only) */
+  trigger?: Partial<FallbackTrigger>;
+}
+
+/**
+ * Job lifecycle state reported by EZThrottle
+ */
+export type JobState = 'queued' | 'running' | 'success' | 'failed' | 'cancelled';
+
+/**
+ * Final HTTP response captured by EZThrottle for a job
+ */
+export interface JobResponse {
+  status_code: number;
+  headers?: Record<string, string>;
+  body?: string;
+}
+
+/**
+ * Job status returned by GET /api/v1/jobs/:job_id
+ */
+export interface JobStatus {
+  job_id: string;
+  status: JobState;
+  idempotent_key?: string;
+  attempts?: number;
+  region?: string;
+  response?: JobResponse;
+  error?: string;
+  metadata?: Record<string, any>;
+  created_at?: number;
+  updated_at?: number;
+}
+
+/**
+ * Response from POST /api/v1/jobs
+ */
+export interface JobCreated {
+  job_id: string;
+  status: JobState;
+  idempotent_key?: string;
+  message?: string;
+}
+
+/**
+ * What submitJob() resolves with: the created job, or an OutboxAck when
+ * EZThrottle was unreachable and the client has an outbox (job_id is null)
+ */
+export type SubmitJobResult = JobCreated | OutboxAck;
+
+/**
+ * Masked webhook secrets returned by getWebhookSecret()
+ */
+export interface WebhookSecretInfo {
+  customer_id: string;
+  primary_secret: string;
+  secondary_secret: string | null;
+  has_secondary: boolean;
+}
+
+/**
+ * Response from creating, rotating or deleting webhook secrets
+ */
+export interface WebhookSecretResponse {
+  status: string;
+  message: string;
+}
+
+/**
+ * Filters for listing jobs
+ */
+export interface ListJobsParams {
+  status?: JobState;
+  idempotentKey?: string;
+  /** Only return jobs created at or after this timestamp (ms) */
+  since?: number;
+  /** Cursor from a previous page's `next_cursor` */
+  cursor?: string;
+  /** Maximum jobs per page (server default applies when omitted) */
+  limit?: number;
+}
+
+/**
+ * One page of jobs returned by GET /api/v1/jobs
+ */
+export interface JobList {
+  jobs: JobStatus[];
+  next_cursor: string | null;
+  has_more: boolean;
+}
+
+/**
+ * Response from cancelling a job
+ */
+export interface CancelJobResponse {
+  job_id: string;
+  status: JobState;
+  message?: string;
+}
+
+/**
+ * Polling options for waiting on a job to finish
+ */
+export interface WaitOptions {
+  /** Maximum time to wait in milliseconds (default: 300000) */
+  timeout?: number;
+  /** Delay between status checks in milliseconds (default: 2000) */
+  pollInterval?: number;
+  /** Stop waiting (CancelledError) when this signal fires */
+  signal?: AbortSignal;
+}
+
+/**
+ * Per-call options for client methods
+ */
+export interface CallOptions {
+  /** Cancel the call (CancelledError); in-flight proxy requests are aborted */
+  signal?: AbortSignal;
 }
 
 /**
@@ -76,6 +205,30 @@ export interface SubmitJobParams {
   retryAt?: number;
 }
 
+/**
+ * Client-side retry policy for submitJob()
+ */
+export interface SubmitRetryOptions {
+  /** Total attempts including the first (default: 1, no retries) */
+  maxAttempts?: number;
+  /** Delay before the first retry in milliseconds (default: 500) */
+  initialDelayMs?: number;
+  /** Upper bound for any single delay in milliseconds (default: 30000) */
+  maxDelayMs?: number;
+  /** Backoff multiplier between attempts (default: 2) */
+  multiplier?: number;
+  /** Randomize each delay between 0 and the backoff ("full jitter", default: true) */
+  jitter?: boolean;
+  /** Decide whether an error is retried (default: error.isRetryable) */
+  shouldRetry?: (error: unknown, attempt: number) => boolean;
+  /** Sleep hook, for deterministic tests (default: setTimeout) */
+  sleep?: (ms: number) => Promise<void>;
+  /** Clock hook used with RateLimitError.retryAt (default: Date.now) */
+  now?: () => number;
+  /** Random source for jitter, returns [0, 1) (default: Math.random) */
+  random?: () => number;
+}
+
 /**
  * EZThrottle client configuration
  */
@@ -83,6 +236,184 @@ export interface EZThrottleConfig {
   apiKey: string;
   tracktagsUrl?: string;
   ezthrottleUrl?: string;
+  /** Correlator fed by your webhook receiver; required for execute({ awaitResult: true }) */
+  correlator?: WebhookCorrelator;
+  /** HTTP transport: a fetch-compatible function, a Transport, or TransportOptions (default: node-fetch) */
+  transport?: FetchLike | Transport | TransportOptions;
+  /** Retry submitJob() on rate limits, 5xx and network errors (default: no retries) */
+  retry?: SubmitRetryOptions;
+  /** Per-host pacing for FRUGAL local requests (default: 2 RPS, 2 concurrent); false disables */
+  localRateLimit?: LocalRateLimitOptions | false;
+  /** Persist submissions while EZThrottle is unreachable and replay them later (default: disabled) */
+  outbox?: OutboxOptions | boolean;
+  /** Lifecycle hook callbacks (more can be added later with client.on()) */
+  hooks?: EZThrottleHooks;
+  /** OpenTelemetry spans, plus opt-in trace context propagation into jobs (default: disabled) */
+  telemetry?: TelemetryOptions;
+  /** Debug/info/warn/error logger, e.g. winston (default: silent) */
+  logger?: Partial<Logger>;
+  /** Extra fields to scrub from logs and errors (Authorization, API keys and webhook secrets always are) */
+  redact?: RedactOptions;
+  /** Per-host counters, submit latency and quota estimate in client.metrics (default: disabled) */
+  metrics?: MetricsOptions | boolean;
+  /** Horizon and tick interval for Step.schedule() (default: 15 minutes ahead, topped up every minute) */
+  scheduler?: SchedulerOptions;
+  /** Prefix every idempotent key with `${namespace}:` so environments sharing an account never dedupe each other (default: none) */
+  idempotencyNamespace?: string;
+  /**
+   * Derive HASH strategy keys in the SDK (deriveIdempotentKey()) and send them,
+   * so computeIdempotentKey() knows them before submitting (default: false,
+   * EZThrottle derives them). Changes the keys of existing HASH jobs.
+   */
+  sendIdempotentKeys?: boolean;
+  /** Share one run between concurrent FRUGAL executions with the same idempotent key (default: disabled) */
+  singleFlight?: SingleFlightOptions | boolean;
+}
+
+/**
+ * Step.execute() options
+ */
+export interface ExecuteOptions {
+  /** Resolve with the job's webhook instead of {job_id} (requires a client correlator) */
+  awaitResult?: boolean;
+  /** Maximum time to wait for the webhook in milliseconds (default: correlator default) */
+  timeoutMs?: number;
+  /**
+   * Cancel the workflow (CancelledError): aborts the local request, and no
+   * further fallbacks, chained steps or forwards are started
+   */
+  signal?: AbortSignal;
+  /** Share concurrent identical FRUGAL runs when the client has `singleFlight` enabled (default: true) */
+  singleFlight?: boolean;
+}
+
+/**
+ * One node of a FRUGAL workflow run, in execution order
+ */
+export interface StepTraceEntry {
+  /** Node in the workflow tree ('' for the root step, e.g. `fallback[0]`, `onSuccess.onFailure`) */
+  path: string;
+  url: string | null;
+  /** Where the node ran */
+  location: 'local' | 'ezthrottle';
+  outcome: 'success' | 'failed' | 'timeout' | 'error' | 'forwarded';
+  status_code?: number;
+  error?: string;
+  /** Job created when the node was forwarded */
+  job_id?: string;
+  /** Why the node was forwarded to EZThrottle */
+  reason?: 'performance' | 'local_queue_full' | 'retryable_failure';
+  duration_ms: number;
+}
+
+/**
+ * Turns a local response body into typed data (see Step.decode())
+ */
+export type ResponseDecoder<T> = (
+  body: string,
+  response: { status_code: number; headers: Record<string, string> }
+) => T;
+
+/**
+ * Step executed locally and the target returned 2xx
+ */
+export interface LocalSuccess<T = unknown> {
+  status: 'success';
+  executed_locally: true;
+  status_code: number;
+  headers: Record<string, string>;
+  /** Raw response body */
+  response: string;
+  /** Body decoded by the step's decoder (JSON.parse by default), parsed on first access */
+  readonly data: T;
+  trace: StepTraceEntry[];
+}
+
+/**
+ * Step executed locally and failed without being forwarded
+ */
+export interface LocalFailure {
+  status: 'failed';
+  executed_locally: true;
+  /** HTTP status, or 0 when there was no response (timeout, network error) */
+  status_code: number;
+  headers: Record<string, string>;
+  response?: string;
+  error: string;
+  trace: StepTraceEntry[];
+}
+
+/**
+ * Step was submitted to EZThrottle (PERFORMANCE, or a forwarded FRUGAL step)
+ */
+export interface Queued {
+  status: 'queued';
+  executed_locally: false;
+  /** null when the submission was outboxed */
+  job_id: string | null;
+  idempotent_key: string | null;
+  /** Raw submitJob() result */
+  submission: SubmitJobResult;
+  trace: StepTraceEntry[];
+}
+
+/**
+ * What Step.execute() resolves with
+ */
+export type StepResult<T = unknown> = LocalSuccess<T> | LocalFailure | Queued;
+
+/**
+ * A problem found by Step.validate()
+ */
+export interface ValidationIssue {
+  severity: 'error' | 'warning';
+  /** Location in the workflow tree, e.g. `onSuccess.fallback[1].url` */
+  path: string;
+  message: string;
+}
+
+/**
+ * Result of Step.validate()
+ */
+export interface ValidationResult {
+  valid: boolean;
+  errors: ValidationIssue[];
+  warnings: ValidationIssue[];
+}
+
+/**
+ * Serialized Step workflow produced by Step.toJSON() and loaded by Step.fromJSON()
+ *
+ * Unlike JobPayload, this keeps client-only fields (FRUGAL fallbackOnError
+ * and timeout) so a definition round-trips without loss.
+ */
+export interface StepDefinition {
+  /** Definition format version */
+  version: number;
+  type: StepType;
+  url: string | null;
+  method: string;
+  headers: Record<string, string>;
+  body: string | null;
+  metadata: Record<string, any>;
+  webhooks: WebhookConfig[];
+  webhookQuorum: number;
+  regions: string[] | null;
+  regionPolicy: 'fallback' | 'strict';
+  executionMode: 'race' | 'fanout';
+  retryPolicy: RetryPolicy | null;
+  retryAt: number | null;
+  idempotentKey: string | null;
+  idempotentStrategy: IdempotentStrategy;
+  /** Key template (absent in definitions saved by older SDKs) */
+  idempotentKeyTemplate?: string | null;
+  fallbackOnError: number[];
+  /** Local (FRUGAL) timeout in milliseconds */
+  timeout: number;
+  fallbacks: Array<{ step: StepDefinition; trigger: Partial<FallbackTrigger> }>;
+  onSuccess: StepDefinition | null;
+  onFailure: StepDefinition | null;
+  onFailureTimeoutMs: number | null;
 }
 
 /**
@@ -104,11 +435,16 @@ export interface IStep {
   retryAt(timestamp: number): this;
   idempotentKey(key: string): this;
   idempotentStrategy(strategy: IdempotentStrategy): this;
+  idempotentKeyTemplate(template: string): this;
+  computeIdempotentKey(): string | null;
   fallbackOnError(codes: number[]): this;
   timeout(ms: number): this;
   fallback(step: Step, options?: { triggerOnError?: number[] | null; triggerOnTimeout?: number | null }): this;
   onSuccess(step: any): this;
   onFailure(step: any): this;
   onFailureTimeout(ms: number): this;
-  execute(client?: any): Promise<any>;
+  validate(): ValidationResult;
+  toJSON(): StepDefinition;
+  execute(clientOrOptions?: any, options?: ExecuteOptions): Promise<StepResult<any> | WebhookEvent>;
+  executeAndWait(client?: any, options?: WaitOptions): Promise<JobResponse>;
 }
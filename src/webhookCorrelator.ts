@@ -0,0 +1,275 @@
+/**
+ * Correlates incoming webhooks with in-process waiters.
+ * Lets request/response-style code await the result of a PERFORMANCE job.
+ */
+
+import { EZThrottleError, TimeoutError, JobFailedError } from './errors';
+import type { WebhookEvent } from './webhookHandler';
+import { cancelledError, onAbort } from './abort';
+
+/**
+ * Options for WebhookCorrelator
+ */
+export interface WebhookCorrelatorOptions {
+  /** Default wait timeout in milliseconds (default: 300000) */
+  defaultTimeoutMs?: number;
+  /** How long unmatched webhooks are kept for late waiters in milliseconds (default: 60000) */
+  bufferTtlMs?: number;
+  /** Maximum unmatched webhooks kept in memory (default: 1000) */
+  maxBuffered?: number;
+  /** How long a job_id is remembered to drop duplicate deliveries in milliseconds (default: 600000) */
+  dedupeTtlMs?: number;
+}
+
+/**
+ * Keys a waiter can match on; at least one is required
+ */
+export interface CorrelationKeys {
+  jobId?: string;
+  idempotentKey?: string;
+}
+
+/**
+ * Outcome of delivering a webhook to the correlator
+ */
+export type DeliveryOutcome = 'matched' | 'buffered' | 'duplicate';
+
+interface Waiter {
+  keys: string[];
+  resolve: (event: WebhookEvent) => void;
+  reject: (error: Error) => void;
+  timer: NodeJS.Timeout;
+}
+
+interface BufferedEvent {
+  event: WebhookEvent;
+  keys: string[];
+  expiresAt: number;
+}
+
+/**
+ * WebhookCorrelator - Resolves pending waiters when their webhook arrives
+ *
+ * Webhooks that arrive before anyone waits for them (the job finished before
+ * submitJob() returned) are buffered briefly. Duplicate deliveries of the same
+ * job_id (webhookQuorum, fanout regions, redelivery) are dropped.
+ *
+ * @example
+ * ```typescript
+ * const correlator = new WebhookCorrelator();
+ * const client = new EZThrottle({ apiKey, correlator });
+ *
+ * app.post('/webhook', createWebhookHandler({ secrets, correlator }).express());
+ *
+ * const event = await new Step(client)
+ *   .url('https://api.example.com/charge')
+ *   .webhooks([{ url: 'https://app.com/webhook' }])
+ *   .execute({ awaitResult: true, timeoutMs: 30000 });
+ * console.log(event.json());
+ * ```
+ */
+export class WebhookCorrelator {
+  private defaultTimeoutMs: number;
+  private bufferTtlMs: number;
+  private maxBuffered: number;
+  private dedupeTtlMs: number;
+
+  private waiters: Map<string, Set<Waiter>>;
+  private buffered: Map<string, BufferedEvent>;
+  private bufferedEntries: Set<BufferedEvent>;
+  private delivered: Map<string, number>;
+
+  constructor({
+    defaultTimeoutMs = 300000,
+    bufferTtlMs = 60000,
+    maxBuffered = 1000,
+    dedupeTtlMs = 600000,
+  }: WebhookCorrelatorOptions = {}) {
+    this.defaultTimeoutMs = defaultTimeoutMs;
+    this.bufferTtlMs = bufferTtlMs;
+    this.maxBuffered = maxBuffered;
+    this.dedupeTtlMs = dedupeTtlMs;
+
+    this.waiters = new Map();
+    this.buffered = new Map();
+    this.bufferedEntries = new Set();
+    this.delivered = new Map();
+  }
+
+  /**
+   * Number of waiters still pending
+   */
+  get pendingCount(): number {
+    const unique = new Set<Waiter>();
+    this.waiters.forEach(set => set.forEach(waiter => unique.add(waiter)));
+    return unique.size;
+  }
+
+  /**
+   * Wait for the webhook matching a job_id and/or idempotent_key.
+   *
+   * @returns The webhook event if the job succeeded
+   * @throws {JobFailedError} If the webhook reports status 'failed'
+   * @throws {TimeoutError} If no webhook arrives within `timeoutMs`
+   * @throws {CancelledError} If `signal` fires first
+   */
+  waitFor(
+    keys: CorrelationKeys,
+    { timeoutMs, signal }: { timeoutMs?: number; signal?: AbortSignal } = {}
+  ): Promise<WebhookEvent> {
+    const waitKeys = toKeys(keys.jobId, keys.idempotentKey);
+    if (waitKeys.length === 0) {
+      return Promise.reject(new Error('jobId or idempotentKey is required'));
+    }
+    if (signal && signal.aborted) {
+      return Promise.reject(cancelledError(signal));
+    }
+
+    this.prune();
+
+    for (const key of waitKeys) {
+      const entry = this.buffered.get(key);
+      if (entry) {
+        this.removeBuffered(entry);
+        return settle(entry.event);
+      }
+    }
+
+    const timeout = timeoutMs ?? this.defaultTimeoutMs;
+    let removeAbortListener = () => {};
+    const waiting = new Promise<WebhookEvent>((resolve, reject) => {
+      const waiter: Waiter = {
+        keys: waitKeys,
+        resolve,
+        reject,
+        timer: setTimeout(() => {
+          this.removeWaiter(waiter);
+          reject(new TimeoutError(
+            `Timeout waiting for webhook (${keys.jobId || keys.idempotentKey}) after ${timeout}ms`
+          ));
+        }, timeout),
+      };
+
+      for (const key of waitKeys) {
+        if (!this.waiters.has(key)) {
+          this.waiters.set(key, new Set());
+        }
+        this.waiters.get(key)!.add(waiter);
+      }
+
+      removeAbortListener = onAbort(signal, () => {
+        this.removeWaiter(waiter);
+        reject(cancelledError(signal!));
+      });
+    });
+
+    return signal ? waiting.finally(() => removeAbortListener()) : waiting;
+  }
+
+  /**
+   * Deliver a verified webhook event to matching waiters.
+   *
+   * @returns 'matched' if a waiter received it, 'buffered' if it was kept for a
+   * later waiter, or 'duplicate' if this job_id was already delivered
+   */
+  deliver(event: WebhookEvent): DeliveryOutcome {
+    this.prune();
+
+    if (this.delivered.has(event.job_id)) {
+      return 'duplicate';
+    }
+    this.delivered.set(event.job_id, Date.now() + this.dedupeTtlMs);
+
+    const eventKeys = toKeys(event.job_id, event.idempotent_key);
+    const matched = new Set<Waiter>();
+    for (const key of eventKeys) {
+      const set = this.waiters.get(key);
+      if (set) set.forEach(waiter => matched.add(waiter));
+    }
+
+    if (matched.size > 0) {
+      matched.forEach(waiter => {
+        this.removeWaiter(waiter);
+        settle(event).then(waiter.resolve, waiter.reject);
+      });
+      return 'matched';
+    }
+
+    const entry: BufferedEvent = { event, keys: eventKeys, expiresAt: Date.now() + this.bufferTtlMs };
+    eventKeys.forEach(key => this.buffered.set(key, entry));
+    this.bufferedEntries.add(entry);
+    while (this.bufferedEntries.size > this.maxBuffered) {
+      this.removeBuffered(this.bufferedEntries.values().next().value as BufferedEvent);
+    }
+    return 'buffered';
+  }
+
+  /**
+   * Reject all pending waiters and drop buffered state (e.g. on shutdown)
+   */
+  close(): void {
+    const unique = new Set<Waiter>();
+    this.waiters.forEach(set => set.forEach(waiter => unique.add(waiter)));
+    unique.forEach(waiter => {
+      clearTimeout(waiter.timer);
+      waiter.reject(new EZThrottleError('WebhookCorrelator closed'));
+    });
+
+    this.waiters.clear();
+    this.buffered.clear();
+    this.bufferedEntries.clear();
+    this.delivered.clear();
+  }
+
+  private removeWaiter(waiter: Waiter): void {
+    clearTimeout(waiter.timer);
+    for (const key of waiter.keys) {
+      const set = this.waiters.get(key);
+      if (!set) continue;
+      set.delete(waiter);
+      if (set.size === 0) this.waiters.delete(key);
+    }
+  }
+
+  private removeBuffered(entry: BufferedEvent): void {
+    this.bufferedEntries.delete(entry);
+    entry.keys.forEach(key => {
+      if (this.buffered.get(key) === entry) this.buffered.delete(key);
+    });
+  }
+
+  /**
+   * Drop expired buffered events and dedupe entries (both are kept in insertion order)
+   */
+  private prune(): void {
+    const now = Date.now();
+
+    for (const entry of this.bufferedEntries) {
+      if (entry.expiresAt > now) break;
+      this.removeBuffered(entry);
+    }
+
+    for (const [jobId, expiresAt] of this.delivered) {
+      if (expiresAt > now) break;
+      this.delivered.delete(jobId);
+    }
+  }
+}
+
+function toKeys(jobId?: string, idempotentKey?: string): string[] {
+  const keys: string[] = [];
+  if (jobId) keys.push(`job:${jobId}`);
+  if (idempotentKey) keys.push(`key:${idempotentKey}`);
+  return keys;
+}
+
+function settle(event: WebhookEvent): Promise<WebhookEvent> {
+  if (event.status === 'failed') {
+    return Promise.reject(new JobFailedError(
+      `Job ${event.job_id} failed with status ${event.response.status_code}`,
+      event.job_id,
+      event.response
+    ));
+  }
+  return Promise.resolve(event);
+}
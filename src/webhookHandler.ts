@@ -0,0 +1,352 @@
+/**
+ * Framework webhook handlers for EZThrottle SDK.
+ * Captures the raw body, verifies the signature and dispatches a typed WebhookEvent.
+ */
+
+import type { IncomingMessage, ServerResponse } from 'http';
+import { tryVerifyWithSecrets } from './webhookUtils';
+import type { WebhookCorrelator } from './webhookCorrelator';
+import {
+  checkWebhookReplay,
+  DeliveryStatus,
+  forgetWebhookDelivery,
+  MemoryNonceStore,
+  parseDelivery,
+  ReplayProtectionOptions,
+  SignedWebhookDelivery,
+} from './webhookReplay';
+
+/**
+ * Response captured by EZThrottle for the job that triggered the webhook
+ */
+export interface WebhookEventResponse {
+  status_code: number;
+  headers: Record<string, string>;
+  body: string;
+}
+
+/**
+ * Parsed webhook payload delivered by EZThrottle
+ */
+export interface WebhookEvent {
+  job_id: string;
+  idempotent_key: string;
+  status: 'success' | 'failed';
+  /** Region that executed the job (one delivery per region for fanout), null if not sent */
+  region: string | null;
+  response: WebhookEventResponse;
+  metadata: Record<string, any>;
+
+  /** Decode response.body as JSON */
+  json<T = any>(): T;
+}
+
+/**
+ * Options for createWebhookHandler()
+ */
+export interface WebhookHandlerOptions {
+  /** Webhook secret, or [primary, secondary] during rotation */
+  secrets: string | [string] | [string, string];
+  /** Maximum age of timestamp in seconds (default: 300) */
+  tolerance?: number;
+  onSuccess?: (event: WebhookEvent, info: WebhookDeliveryInfo) => void | Promise<void>;
+  onFailure?: (event: WebhookEvent, info: WebhookDeliveryInfo) => void | Promise<void>;
+  /** Resolve in-process waiters (Step.execute({ awaitResult: true })) with each event */
+  correlator?: WebhookCorrelator;
+  /**
+   * Reject replayed deliveries and acknowledge duplicates without dispatching
+   * them; true uses an in-memory store (default: off)
+   */
+  replayProtection?: (ReplayProtectionOptions & { dispatchDuplicates?: boolean }) | boolean;
+}
+
+/**
+ * How a dispatched delivery relates to earlier ones
+ */
+export interface WebhookDeliveryInfo {
+  /** 'duplicate' only reaches callbacks with replayProtection.dispatchDuplicates */
+  delivery: Exclude<DeliveryStatus, 'replay'>;
+}
+
+/**
+ * Framework-independent result of handling one webhook delivery
+ */
+export interface WebhookHandlerResult {
+  statusCode: number;
+  body: Record<string, any>;
+  event?: WebhookEvent;
+  /** Replay check outcome (absent if the delivery was rejected first or replayProtection is off) */
+  delivery?: DeliveryStatus;
+}
+
+/**
+ * Webhook handler with adapters for common Node.js frameworks
+ */
+export interface WebhookHandler {
+  /** Verify, parse and dispatch a raw webhook body */
+  handle(rawBody: Buffer | string, signatureHeader: string | undefined): Promise<WebhookHandlerResult>;
+  /** Express middleware: `app.post('/webhook', handler.express())` (answers errors itself, never calls next) */
+  express(): (req: any, res: any, next?: (err?: any) => void) => Promise<void>;
+  /** Fastify route handler: `fastify.post('/webhook', handler.fastify())` */
+  fastify(): (request: any, reply: any) => Promise<void>;
+  /** Koa middleware: `router.post('/webhook', handler.koa())` */
+  koa(): (ctx: any, next?: () => Promise<any>) => Promise<void>;
+  /** Plain http listener: `http.createServer(handler.node())` */
+  node(): (req: IncomingMessage, res: ServerResponse) => Promise<void>;
+}
+
+const SIGNATURE_HEADER = 'x-ezthrottle-signature';
+
+/**
+ * Parse a raw webhook body into a typed WebhookEvent.
+ *
+ * @param rawBody - Raw webhook payload
+ * @returns Parsed event with a json() helper for the response body
+ * @throws {Error} If the payload is not valid JSON or is missing job_id/status
+ */
+export function parseWebhookEvent(rawBody: Buffer | string): WebhookEvent {
+  const text = Buffer.isBuffer(rawBody) ? rawBody.toString('utf-8') : rawBody;
+  const data = JSON.parse(text);
+
+  if (!data || typeof data !== 'object' || typeof data.job_id !== 'string' || !data.job_id || !data.status) {
+    throw new Error('Webhook payload is missing job_id or status');
+  }
+
+  const response = data.response || {};
+  const event: WebhookEvent = {
+    job_id: data.job_id,
+    idempotent_key: data.idempotent_key || '',
+    status: data.status,
+    region: typeof data.region === 'string' ? data.region : null,
+    response: {
+      status_code: response.status_code || 0,
+      headers: response.headers || {},
+      body: response.body || '',
+    },
+    metadata: data.metadata || {},
+    json<T = any>(): T {
+      return JSON.parse(this.response.body) as T;
+    },
+  };
+
+  return event;
+}
+
+/**
+ * Create a webhook handler that verifies signatures and dispatches events.
+ *
+ * Responds 401 on invalid signatures and replays, 400 on malformed or
+ * unreadable payloads, 500 if a callback or the nonce store throws (so
+ * EZThrottle retries delivery) and 200 otherwise, from handle() and every
+ * framework adapter alike. With replayProtection, duplicates of a job_id
+ * already handled get 200 without reaching the callbacks; a failed delivery
+ * is forgotten so its retry is not a duplicate.
+ *
+ * @example
+ * ```typescript
+ * import express from 'express';
+ * import { createWebhookHandler } from 'ezthrottle';
+ *
+ * const webhooks = createWebhookHandler({
+ *   secrets: [process.env.WEBHOOK_SECRET!, process.env.OLD_WEBHOOK_SECRET!],
+ *   onSuccess: async (event) => {
+ *     const charge = event.json<{ id: string }>();
+ *     console.log(`Job ${event.job_id} charged ${charge.id}`);
+ *   },
+ *   onFailure: async (event) => {
+ *     console.log(`Job ${event.job_id} failed: ${event.response.status_code}`);
+ *   },
+ * });
+ *
+ * // Mount before express.json() so the raw body is still available
+ * app.post('/webhook', webhooks.express());
+ * ```
+ */
+export function createWebhookHandler(options: WebhookHandlerOptions): WebhookHandler {
+  const { tolerance = 300, onSuccess, onFailure, correlator } = options;
+  const replayProtection = options.replayProtection === true ? {} : options.replayProtection || null;
+  const [primarySecret, secondarySecret] = typeof options.secrets === 'string'
+    ? [options.secrets]
+    : options.secrets;
+
+  if (!primarySecret) {
+    throw new Error('secrets is required');
+  }
+
+  const nonces = replayProtection ? replayProtection.store || new MemoryNonceStore() : null;
+
+  const handle = async (
+    rawBody: Buffer | string,
+    signatureHeader: string | undefined
+  ): Promise<WebhookHandlerResult> => {
+    const { verified, reason } = tryVerifyWithSecrets(
+      rawBody,
+      signatureHeader || '',
+      primarySecret,
+      secondarySecret,
+      tolerance
+    );
+
+    if (!verified) {
+      return { statusCode: 401, body: { error: `Invalid signature: ${reason}` } };
+    }
+
+    let event: WebhookEvent;
+    try {
+      event = parseWebhookEvent(rawBody);
+    } catch (error) {
+      return {
+        statusCode: 400,
+        body: { error: `Invalid payload: ${error instanceof Error ? error.message : String(error)}` },
+      };
+    }
+
+    let delivery: SignedWebhookDelivery | null = null;
+    let status: DeliveryStatus | undefined;
+    if (nonces && replayProtection) {
+      delivery = parseDelivery(rawBody, signatureHeader || '');
+      if (!delivery) {
+        return { statusCode: 400, body: { error: 'Invalid payload: job_id must be a string' } };
+      }
+      try {
+        status = await checkWebhookReplay(nonces, delivery, {
+          tolerance,
+          duplicateWindow: replayProtection.duplicateWindow,
+        });
+      } catch (error) {
+        return {
+          statusCode: 500,
+          body: { error: `Replay check failed: ${error instanceof Error ? error.message : String(error)}` },
+        };
+      }
+      if (status === 'replay') {
+        return { statusCode: 401, body: { error: 'Invalid signature: replay_detected' }, delivery: status };
+      }
+      if (status === 'duplicate' && !replayProtection.dispatchDuplicates) {
+        return { statusCode: 200, body: { ok: true, job_id: event.job_id, duplicate: true }, event, delivery: status };
+      }
+    }
+
+    if (correlator) {
+      correlator.deliver(event);
+    }
+
+    const info: WebhookDeliveryInfo = { delivery: status === 'duplicate' ? 'duplicate' : 'new' };
+    try {
+      if (event.status === 'success') {
+        if (onSuccess) await onSuccess(event, info);
+      } else if (onFailure) {
+        await onFailure(event, info);
+      }
+    } catch (error) {
+      // Let EZThrottle's retry through; if the store fails, the retry is acknowledged as a duplicate
+      if (nonces && delivery) await forgetWebhookDelivery(nonces, delivery).catch(() => undefined);
+      return {
+        statusCode: 500,
+        body: { error: `Handler failed: ${error instanceof Error ? error.message : String(error)}` },
+        event,
+        delivery: status,
+      };
+    }
+
+    return { statusCode: 200, body: { ok: true, job_id: event.job_id }, event, delivery: status };
+  };
+
+  // Shared by the adapters so they all answer alike: 400 if the body can't be read, 500 if handling throws
+  const handleRequest = async (
+    readBody: () => Promise<Buffer | string>,
+    headers: Record<string, string | string[] | undefined>
+  ): Promise<WebhookHandlerResult> => {
+    let rawBody: Buffer | string;
+    try {
+      rawBody = await readBody();
+    } catch (error) {
+      return {
+        statusCode: 400,
+        body: { error: `Invalid payload: ${error instanceof Error ? error.message : String(error)}` },
+      };
+    }
+
+    try {
+      return await handle(rawBody, getSignatureHeader(headers));
+    } catch (error) {
+      return {
+        statusCode: 500,
+        body: { error: `Handler failed: ${error instanceof Error ? error.message : String(error)}` },
+      };
+    }
+  };
+
+  return {
+    handle,
+
+    express() {
+      return async (req, res) => {
+        const result = await handleRequest(() => getRawBody(req, req.body, req.rawBody), req.headers);
+        res.status(result.statusCode).json(result.body);
+      };
+    },
+
+    fastify() {
+      return async (request, reply) => {
+        const result = await handleRequest(
+          () => getRawBody(request.raw, request.body, request.rawBody),
+          request.headers
+        );
+        reply.code(result.statusCode).send(result.body);
+      };
+    },
+
+    koa() {
+      return async (ctx) => {
+        const result = await handleRequest(() => getRawBody(ctx.req, ctx.request.body, ctx.request.rawBody), ctx.headers);
+        ctx.status = result.statusCode;
+        ctx.body = result.body;
+      };
+    },
+
+    node() {
+      return async (req, res) => {
+        const result = await handleRequest(() => readStream(req), req.headers);
+        res.writeHead(result.statusCode, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(result.body));
+      };
+    },
+  };
+}
+
+function getSignatureHeader(headers: Record<string, string | string[] | undefined>): string | undefined {
+  const value = headers[SIGNATURE_HEADER];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+/**
+ * Find the unparsed request body: a raw body captured by a body parser,
+ * a Buffer/string body (express.raw, Fastify parseAs: 'buffer'), or the
+ * request stream itself if nothing consumed it yet.
+ */
+async function getRawBody(stream: IncomingMessage, body: unknown, rawBody: unknown): Promise<Buffer | string> {
+  if (Buffer.isBuffer(rawBody) || typeof rawBody === 'string') return rawBody;
+  if (Buffer.isBuffer(body) || typeof body === 'string') return body;
+
+  const parsed = body !== undefined && body !== null && !(typeof body === 'object' && Object.keys(body).length === 0);
+  if (parsed || stream.readableEnded) {
+    throw new Error(
+      'Raw webhook body unavailable: the body was already parsed as JSON. ' +
+      'Use a raw body parser for the webhook route so the signature can be verified.'
+    );
+  }
+
+  return readStream(stream);
+}
+
+function readStream(stream: IncomingMessage): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    stream.on('data', (chunk: Buffer | string) => {
+      chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+    });
+    stream.on('end', () => resolve(Buffer.concat(chunks)));
+    stream.on('error', reject);
+  });
+}
@@ -0,0 +1,228 @@
+/**
+ * Webhook replay and duplicate detection.
+ *
+ * EZThrottle signs every delivery attempt afresh, so the same signed bytes
+ * (job_id, timestamp and body) arriving twice are a replay, while another
+ * signed delivery for a job_id already seen is a legitimate duplicate
+ * (quorum/fanout redelivery, retries). The nonce hashes the body instead of
+ * using the signature header, whose entries can be appended, dropped or
+ * reordered without breaking verification.
+ */
+
+import * as crypto from 'crypto';
+import { parseSignatureHeader, tryVerifyWithSecrets, VerificationResult } from './webhookUtils';
+
+/**
+ * Storage for delivery nonces (implement for Redis, SQL, ...)
+ *
+ * Must be atomic across processes sharing it, e.g. Redis `SET key 1 NX PX ttl`.
+ */
+export interface WebhookNonceStore {
+  /** Record `key` for `ttlMs`; false if it is already recorded */
+  add(key: string, ttlMs: number): Promise<boolean>;
+  /** Forget `key` */
+  delete(key: string): Promise<void>;
+}
+
+/**
+ * Whether a verified delivery was seen before
+ *
+ * - `new`: first delivery for this job_id
+ * - `duplicate`: freshly signed redelivery of a job_id already seen
+ * - `replay`: the exact same signed delivery again (rejected)
+ */
+export type DeliveryStatus = 'new' | 'duplicate' | 'replay';
+
+/**
+ * A signed delivery, identified by (job_id, timestamp, body)
+ */
+export interface SignedWebhookDelivery {
+  job_id: string;
+  timestamp: number;
+  /** SHA-256 (hex) of the raw body */
+  digest: string;
+}
+
+/**
+ * Replay protection options
+ */
+export interface ReplayProtectionOptions {
+  /** Nonce store (default: MemoryNonceStore) */
+  store?: WebhookNonceStore;
+  /** How long a job_id is remembered to flag duplicates in seconds (default: the tolerance) */
+  duplicateWindow?: number;
+}
+
+/**
+ * Options for verifyWebhookDelivery()
+ */
+export interface VerifyDeliveryOptions extends ReplayProtectionOptions {
+  /** Maximum age of timestamp in seconds (default: 300) */
+  tolerance?: number;
+}
+
+/**
+ * Signature verification plus replay/duplicate detection
+ */
+export interface DeliveryVerificationResult extends VerificationResult {
+  /** null when the delivery was rejected before the replay check */
+  delivery: DeliveryStatus | null;
+  job_id: string | null;
+}
+
+/**
+ * MemoryNonceStore - Default store: in-process LRU with per-key expiry
+ */
+export class MemoryNonceStore implements WebhookNonceStore {
+  private maxEntries: number;
+  private entries: Map<string, number> = new Map();
+
+  /**
+   * @param maxEntries - Least recently added keys are evicted beyond this (default: 10000)
+   */
+  constructor(maxEntries: number = 10000) {
+    this.maxEntries = maxEntries;
+  }
+
+  async add(key: string, ttlMs: number): Promise<boolean> {
+    const now = Date.now();
+    const expiresAt = this.entries.get(key);
+    if (expiresAt !== undefined && expiresAt > now) return false;
+
+    this.entries.delete(key);
+    this.entries.set(key, now + ttlMs);
+    this.evict(now);
+    return true;
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  private evict(now: number): void {
+    for (const [key, expiresAt] of this.entries) {
+      if (this.entries.size <= this.maxEntries && expiresAt > now) break;
+      this.entries.delete(key);
+    }
+  }
+}
+
+/**
+ * Record a verified delivery and classify it
+ *
+ * The nonce is kept until its timestamp leaves the tolerance window (after
+ * that the timestamp check rejects it anyway); the job_id for
+ * `duplicateWindow` seconds.
+ */
+export async function checkWebhookReplay(
+  store: WebhookNonceStore,
+  delivery: SignedWebhookDelivery,
+  { tolerance = 300, duplicateWindow = tolerance }: { tolerance?: number; duplicateWindow?: number } = {}
+): Promise<DeliveryStatus> {
+  const nonceTtlMs = Math.max(1, (delivery.timestamp + tolerance) * 1000 - Date.now());
+  if (!(await store.add(nonceKey(delivery), nonceTtlMs))) {
+    return 'replay';
+  }
+  return (await store.add(jobKey(delivery.job_id), duplicateWindow * 1000)) ? 'new' : 'duplicate';
+}
+
+/**
+ * Forget a delivery so EZThrottle's retry is processed again (call when handling it failed)
+ */
+export async function forgetWebhookDelivery(store: WebhookNonceStore, delivery: SignedWebhookDelivery): Promise<void> {
+  await store.delete(nonceKey(delivery));
+  await store.delete(jobKey(delivery.job_id));
+}
+
+/**
+ * Verify a webhook signature and detect replays and duplicates
+ *
+ * Replays come back as `{ verified: false, reason: 'replay_detected' }`.
+ * Duplicates verify; check `delivery === 'duplicate'` to skip work already done.
+ *
+ * @param payload - Raw webhook payload
+ * @param signatureHeader - Value of X-EZThrottle-Signature header
+ * @param secrets - Webhook secret, or [primary, secondary] during rotation
+ * @param options - {tolerance, store, duplicateWindow}; pass one long-lived store
+ *
+ * @example
+ * ```typescript
+ * const nonces = new MemoryNonceStore();
+ *
+ * app.post('/webhook', express.raw({ type: 'application/json' }), async (req, res) => {
+ *   const result = await verifyWebhookDelivery(
+ *     req.body, req.headers['x-ezthrottle-signature'] as string, WEBHOOK_SECRET, { store: nonces }
+ *   );
+ *   if (!result.verified) return res.status(401).json({ error: result.reason });
+ *   if (result.delivery === 'duplicate') return res.json({ ok: true });
+ *   // Process webhook...
+ * });
+ * ```
+ */
+export async function verifyWebhookDelivery(
+  payload: Buffer | string,
+  signatureHeader: string,
+  secrets: string | [string] | [string, string],
+  options: VerifyDeliveryOptions = {}
+): Promise<DeliveryVerificationResult> {
+  const { tolerance = 300, store = defaultStore(), duplicateWindow } = options;
+  const [primarySecret, secondarySecret] = typeof secrets === 'string' ? [secrets] : secrets;
+
+  const verification = tryVerifyWithSecrets(payload, signatureHeader, primarySecret, secondarySecret, tolerance);
+  if (!verification.verified) {
+    return { ...verification, delivery: null, job_id: null };
+  }
+
+  const delivery = parseDelivery(payload, signatureHeader);
+  if (!delivery) {
+    return { verified: false, reason: 'missing_job_id', delivery: null, job_id: null };
+  }
+
+  const status = await checkWebhookReplay(store, delivery, { tolerance, duplicateWindow });
+  if (status === 'replay') {
+    return { verified: false, reason: 'replay_detected', delivery: status, job_id: delivery.job_id };
+  }
+  return { ...verification, delivery: status, job_id: delivery.job_id };
+}
+
+/**
+ * Identify a delivery from its (already verified) body and signature header
+ *
+ * @returns null if the body has no job_id
+ */
+export function parseDelivery(payload: Buffer | string, signatureHeader: string): SignedWebhookDelivery | null {
+  const bytes = Buffer.isBuffer(payload) ? payload : Buffer.from(payload, 'utf-8');
+  let jobId: unknown;
+  try {
+    jobId = JSON.parse(bytes.toString('utf-8')).job_id;
+  } catch {
+    return null;
+  }
+  if (typeof jobId !== 'string' || !jobId) return null;
+
+  return {
+    job_id: jobId,
+    timestamp: parseSignatureHeader(signatureHeader).timestamp ?? 0,
+    digest: crypto.createHash('sha256').update(bytes).digest('hex'),
+  };
+}
+
+let sharedStore: MemoryNonceStore | null = null;
+
+// verifyWebhookDelivery() calls without a store share one per process
+function defaultStore(): MemoryNonceStore {
+  if (!sharedStore) sharedStore = new MemoryNonceStore();
+  return sharedStore;
+}
+
+function nonceKey(delivery: SignedWebhookDelivery): string {
+  return `ezthrottle:webhook:nonce:${delivery.job_id}:${delivery.timestamp}:${delivery.digest}`;
+}
+
+function jobKey(jobId: string): string {
+  return `ezthrottle:webhook:job:${jobId}`;
+}
@@ -1,6 +1,6 @@
 /**
  * Webhook utilities for EZThrottle SDK.
- * Provides HMAC signature verification for secure webhook delivery.
+ * Provides HMAC signing and verification for secure webhook delivery.
  */
 
 import * as crypto from 'crypto';
@@ -23,9 +23,132 @@ export class WebhookVerificationError extends Error {
   }
 }
 
+/**
+ * A signature scheme a header entry can use (`v1=...`)
+ */
+export interface SignatureScheme {
+  /** Header key, e.g. 'v1' */
+  version: string;
+  /** Signature of the raw payload bytes at `timestamp` (seconds) */
+  sign(payload: Buffer, secret: string, timestamp: number): string;
+}
+
+/**
+ * Parsed X-EZThrottle-Signature header
+ */
+export interface SignatureHeader {
+  /** Unix seconds, or null if `t` is missing or not an integer */
+  timestamp: number | null;
+  /** Signatures by scheme version, in header order (several during secret rotation) */
+  signatures: Record<string, string[]>;
+}
+
+/**
+ * v1: hex HMAC-SHA256 of `${timestamp}.` followed by the raw body bytes
+ */
+const V1_SCHEME: SignatureScheme = {
+  version: 'v1',
+  sign(payload, secret, timestamp) {
+    return crypto
+      .createHmac('sha256', secret)
+      .update(`${timestamp}.`)
+      .update(payload)
+      .digest('hex');
+  },
+};
+
+const schemes: Map<string, SignatureScheme> = new Map([[V1_SCHEME.version, V1_SCHEME]]);
+
+/**
+ * Accept (and sign with) another signature scheme, e.g. a future `v2`
+ *
+ * When a header carries several schemes the verifier knows, only the
+ * newest (highest version) is checked, so a header that offers a newer
+ * scheme can't be verified by an older one instead.
+ *
+ * @throws {Error} If `version` is not of the form v<number>
+ */
+export function registerSignatureScheme(scheme: SignatureScheme): void {
+  if (!/^v\d+$/.test(scheme.version)) {
+    throw new Error(`Invalid signature scheme version "${scheme.version}" (expected v<number>)`);
+  }
+  schemes.set(scheme.version, scheme);
+}
+
+/**
+ * Parse the "t=timestamp,v1=signature[,v1=signature...]" X-EZThrottle-Signature format
+ *
+ * Entries are split on their first '=' only; unknown keys are kept so a
+ * newer scheme can be negotiated.
+ */
+export function parseSignatureHeader(signatureHeader: string): SignatureHeader {
+  const header: SignatureHeader = { timestamp: null, signatures: {} };
+
+  for (const part of signatureHeader.split(',')) {
+    const index = part.indexOf('=');
+    if (index <= 0) continue;
+    const key = part.slice(0, index).trim();
+    const value = part.slice(index + 1).trim();
+    if (!value) continue;
+
+    if (key === 't') {
+      header.timestamp = /^\d+$/.test(value) ? parseInt(value, 10) : null;
+    } else {
+      (header.signatures[key] = header.signatures[key] || []).push(value);
+    }
+  }
+  return header;
+}
+
+/**
+ * Build an X-EZThrottle-Signature header, as EZThrottle does
+ *
+ * Use it to test your webhook handlers without hardcoding HMACs.
+ *
+ * @param payload - Raw webhook body, exactly as it will be sent
+ * @param secret - Webhook secret, or several (one signature each, as during rotation)
+ * @param timestamp - Unix seconds (default: now)
+ * @param versions - Schemes to sign with (default: ['v1'])
+ * @returns Header value, e.g. `t=1700000000,v1=5257a869...`
+ *
+ * @example
+ * ```typescript
+ * const body = JSON.stringify({ job_id: 'job_1', status: 'success', response: { status_code: 200 } });
+ * await request(app)
+ *   .post('/webhook')
+ *   .set('X-EZThrottle-Signature', signWebhookPayload(body, process.env.WEBHOOK_SECRET!))
+ *   .send(body);
+ * ```
+ */
+export function signWebhookPayload(
+  payload: Buffer | string,
+  secret: string | string[],
+  timestamp: number = Math.floor(Date.now() / 1000),
+  versions: string[] = ['v1']
+): string {
+  const bytes = toBytes(payload);
+  const secrets = Array.isArray(secret) ? secret : [secret];
+  const entries = [`t=${timestamp}`];
+
+  for (const version of versions) {
+    const scheme = schemes.get(version);
+    if (!scheme) {
+      throw new Error(`Unknown signature scheme "${version}"`);
+    }
+    for (const key of secrets) {
+      entries.push(`${version}=${scheme.sign(bytes, key, timestamp)}`);
+    }
+  }
+  return entries.join(',');
+}
+
 /**
  * Verify HMAC-SHA256 signature from X-EZThrottle-Signature header.
  *
+ * The raw bytes are hashed, so pass the body as received (a Buffer) rather
+ * than re-encoded text. The header is valid if any of its signatures for
+ * the negotiated scheme matches.
+ *
  * @param payload - Raw webhook payload (request body as Buffer or string)
  * @param signatureHeader - Value of X-EZThrottle-Signature header
  * @param secret - Your webhook secret (primary or secondary)
@@ -71,26 +194,19 @@ export function verifyWebhookSignature(
   }
 
   try {
-    // Parse "t=timestamp,v1=signature" format
-    const parts: Record<string, string> = {};
-    signatureHeader.split(',').forEach(part => {
-      const [key, value] = part.split('=');
-      if (key && value) {
-        parts[key] = value;
-      }
-    });
-
-    const timestampStr = parts['t'] || '0';
-    const signature = parts['v1'] || '';
-
-    if (!signature) {
+    const header = parseSignatureHeader(signatureHeader);
+    const scheme = negotiateScheme(header);
+
+    if (!scheme) {
       return { verified: false, reason: 'missing_v1_signature' };
     }
+    if (header.timestamp === null) {
+      return { verified: false, reason: 'invalid_timestamp' };
+    }
 
     // Check timestamp tolerance
     const now = Math.floor(Date.now() / 1000);
-    const sigTime = parseInt(timestampStr, 10);
-    const timeDiff = Math.abs(now - sigTime);
+    const timeDiff = Math.abs(now - header.timestamp);
 
     if (timeDiff > tolerance) {
       return {
@@ -99,20 +215,11 @@ export function verifyWebhookSignature(
       };
     }
 
-    // Compute expected signature
-    const payloadStr = Buffer.isBuffer(payload) ? payload.toString('utf-8') : payload;
-    const signedPayload = `${timestampStr}.${payloadStr}`;
-    const expected = crypto
-      .createHmac('sha256', secret)
-      .update(signedPayload)
-      .digest('hex');
+    // Any entry may match: EZThrottle signs with every active secret during rotation
+    const expected = scheme.sign(toBytes(payload), secret, header.timestamp);
+    const matched = header.signatures[scheme.version].some(signature => safeEqual(signature, expected));
 
-    // Constant-time comparison
-    if (crypto.timingSafeEqual(Buffer.from(signature), Buffer.from(expected))) {
-      return { verified: true, reason: 'valid' };
-    } else {
-      return { verified: false, reason: 'signature_mismatch' };
-    }
+    return matched ? { verified: true, reason: 'valid' } : { verified: false, reason: 'signature_mismatch' };
   } catch (error) {
     return {
       verified: false,
@@ -221,3 +328,39 @@ export function tryVerifyWithSecrets(
     reason: `both_secrets_failed (primary: ${primaryResult.reason})`
   };
 }
+
+/**
+ * Newest registered scheme the header carries
+ */
+function negotiateScheme(header: SignatureHeader): SignatureScheme | null {
+  let best: SignatureScheme | null = null;
+  for (const version of Object.keys(header.signatures)) {
+    const scheme = schemes.get(version);
+    if (scheme && (!best || versionNumber(scheme.version) > versionNumber(best.version))) {
+      best = scheme;
+    }
+  }
+  return best;
+}
+
+function versionNumber(version: string): number {
+  return parseInt(version.slice(1), 10);
+}
+
+function toBytes(payload: Buffer | string): Buffer {
+  return Buffer.isBuffer(payload) ? payload : Buffer.from(payload, 'utf-8');
+}
+
+/**
+ * Constant-time comparison that returns false (instead of throwing) on a length mismatch
+ */
+function safeEqual(actual: string, expected: string): boolean {
+  const a = Buffer.from(actual);
+  const b = Buffer.from(expected);
+  if (a.length !== b.length) {
+    // Still spend the comparison time so the length isn't leaked by timing
+    crypto.timingSafeEqual(b, b);
+    return false;
+  }
+  return crypto.timingSafeEqual(a, b);
+}
@@ -0,0 +1,100 @@
+/**
+ * Wire codec between the SDK's camelCase job payloads and EZThrottle's
+ * snake_case job schema. Whole workflow trees (fallback_job, on_success,
+ * on_failure) are encoded recursively.
+ */
+
+import { FallbackTrigger, JobPayload, RetryPolicy, SubmitJobParams, WebhookConfig } from './types';
+
+/**
+ * Job schema version spoken by this SDK (golden fixtures: test/fixtures/wire/v<N>)
+ */
+export const WIRE_SCHEMA_VERSION = 1;
+
+/**
+ * Job payload as sent to POST /api/v1/jobs
+ */
+export interface WireJobPayload {
+  url: string;
+  method: string;
+  headers?: Record<string, string>;
+  body?: string;
+  metadata?: Record<string, any>;
+  webhooks?: WebhookConfig[];
+  webhook_quorum?: number;
+  regions?: string[];
+  region_policy?: 'fallback' | 'strict';
+  execution_mode?: 'race' | 'fanout';
+  retry_policy?: RetryPolicy;
+  fallback_job?: WireJobPayload;
+  on_success?: WireJobPayload;
+  on_failure?: WireJobPayload;
+  on_failure_timeout_ms?: number;
+  idempotent_key?: string;
+  retry_at?: number;
+  /** Only on fallback_job nodes */
+  trigger?: Partial<FallbackTrigger>;
+}
+
+/**
+ * Encode a job (and every nested job) to the server's snake_case schema
+ *
+ * Server defaults (method GET, webhook_quorum 1, region_policy 'fallback',
+ * execution_mode 'race') are omitted at every level.
+ */
+export function encodeJobPayload(payload: SubmitJobParams | JobPayload): WireJobPayload {
+  const wire: WireJobPayload = {
+    url: payload.url,
+    method: (payload.method || 'GET').toUpperCase(),
+  };
+
+  if (payload.headers) wire.headers = payload.headers;
+  if (payload.body) wire.body = payload.body;
+  if (payload.metadata) wire.metadata = payload.metadata;
+  if (payload.webhooks) wire.webhooks = payload.webhooks;
+  if (payload.webhookQuorum !== undefined && payload.webhookQuorum !== 1) wire.webhook_quorum = payload.webhookQuorum;
+  if (payload.regions) wire.regions = payload.regions;
+  if (payload.regionPolicy && payload.regionPolicy !== 'fallback') wire.region_policy = payload.regionPolicy;
+  if (payload.executionMode && payload.executionMode !== 'race') wire.execution_mode = payload.executionMode;
+  if (payload.retryPolicy) wire.retry_policy = payload.retryPolicy;
+  if (payload.fallbackJob) wire.fallback_job = encodeJobPayload(payload.fallbackJob);
+  if (payload.onSuccess) wire.on_success = encodeJobPayload(payload.onSuccess);
+  if (payload.onFailure) wire.on_failure = encodeJobPayload(payload.onFailure);
+  if (payload.onFailureTimeoutMs !== undefined) wire.on_failure_timeout_ms = payload.onFailureTimeoutMs;
+  if (payload.idempotentKey) wire.idempotent_key = payload.idempotentKey;
+  if (payload.retryAt !== undefined) wire.retry_at = payload.retryAt;
+  if ('trigger' in payload && payload.trigger) wire.trigger = payload.trigger;
+
+  return wire;
+}
+
+/**
+ * Decode a snake_case job (as EZThrottle receives it) back into a JobPayload
+ *
+ * ezthrottle/testing reads submitted jobs with it.
+ */
+export function decodeJobPayload(wire: WireJobPayload): JobPayload {
+  const payload: JobPayload = {
+    url: wire.url,
+    method: wire.method || 'GET',
+  };
+
+  if (wire.headers) payload.headers = wire.headers;
+  if (wire.body) payload.body = wire.body;
+  if (wire.metadata) payload.metadata = wire.metadata;
+  if (wire.webhooks) payload.webhooks = wire.webhooks;
+  if (wire.webhook_quorum !== undefined) payload.webhookQuorum = wire.webhook_quorum;
+  if (wire.regions) payload.regions = wire.regions;
+  if (wire.region_policy) payload.regionPolicy = wire.region_policy;
+  if (wire.execution_mode) payload.executionMode = wire.execution_mode;
+  if (wire.retry_policy) payload.retryPolicy = wire.retry_policy;
+  if (wire.fallback_job) payload.fallbackJob = decodeJobPayload(wire.fallback_job);
+  if (wire.on_success) payload.onSuccess = decodeJobPayload(wire.on_success);
+  if (wire.on_failure) payload.onFailure = decodeJobPayload(wire.on_failure);
+  if (wire.on_failure_timeout_ms !== undefined) payload.onFailureTimeoutMs = wire.on_failure_timeout_ms;
+  if (wire.idempotent_key) payload.idempotentKey = wire.idempotent_key;
+  if (wire.retry_at !== undefined) payload.retryAt = wire.retry_at;
+  if (wire.trigger) payload.trigger = wire.trigger;
+
+  return payload;
+}
@@ -0,0 +1,122 @@
+const { test, describe, before, after } = require('node:test');
+const assert = require('node:assert/strict');
+const { Step, StepType, JobFailedError, RateLimitError } = require('../dist');
+const { clientAnswering, forwarded, withTestServer, listen, close } = require('./helpers');
+
+describe('Step.executeAll', () => {
+  let target;
+  let targetUrl;
+
+  before(async () => {
+    // /ok answers 200, anything else 400 (not a fallbackOnError code, so never forwarded)
+    target = await listen((req, res) => {
+      res.writeHead(req.url === '/ok' ? 200 : 400, { 'Content-Type': 'application/json' });
+      res.end(req.url === '/ok' ? '{"ok":true}' : '{"error":"bad request"}');
+    });
+    targetUrl = `http://127.0.0.1:${target.address().port}`;
+  });
+
+  after(() => close(target));
+
+  test('reports local failures as failed, not submitted', async () => {
+    await withTestServer({}, async server => {
+      const client = server.client();
+      const report = await Step.executeAll([
+        new Step().type(StepType.FRUGAL).url(`${targetUrl}/ok`),
+        new Step().type(StepType.FRUGAL).url(`${targetUrl}/invalid`),
+        new Step().url('https://api.example.com/queued'),
+      ], { client });
+
+      assert.deepEqual(report.results.map(r => r.status), ['submitted', 'failed', 'submitted']);
+      assert.equal(report.submitted[0].jobId, null);
+      assert.equal(report.submitted[0].result.status, 'success');
+      assert.match(report.submitted[1].jobId, /^job_/);
+
+      const [{ error }] = report.failed;
+      assert.ok(error instanceof JobFailedError);
+      assert.equal(error.response.status_code, 400);
+    });
+  });
+
+  test('stopOnError trips on a local failure', async () => {
+    await withTestServer({}, async server => {
+      const report = await Step.executeAll([
+        new Step().type(StepType.FRUGAL).url(`${targetUrl}/invalid`),
+        new Step().url('https://api.example.com/never'),
+      ], { client: server.client(), concurrency: 1, stopOnError: true });
+
+      assert.equal(report.failed.length, 1);
+      assert.equal(report.skipped.length, 1);
+      assert.equal(report.skipped[0].index, 1);
+    });
+  });
+});
+
+describe('client.submitJobs', () => {
+  test('keeps at most `concurrency` submissions in flight', async () => {
+    let inFlight = 0;
+    let peak = 0;
+    const client = clientAnswering(async () => {
+      peak = Math.max(peak, ++inFlight);
+      await new Promise(resolve => setTimeout(resolve, 5));
+      inFlight--;
+      return forwarded(201, { job_id: 'job_1', status: 'queued' });
+    });
+
+    const jobs = Array.from({ length: 8 }, (_, i) => ({ url: `https://api.example.com/${i}` }));
+    const report = await client.submitJobs(jobs, { concurrency: 3 });
+
+    assert.equal(report.submitted.length, 8);
+    assert.equal(peak, 3);
+  });
+
+  test('pauses the whole batch until a rate limit lifts', async () => {
+    let clock = 1000;
+    const sleeps = [];
+    let calls = 0;
+    const client = clientAnswering(() => {
+      calls++;
+      return calls === 1
+        ? forwarded(429, { error: 'busy', retry_at: 6000 })
+        : forwarded(201, { job_id: `job_${calls}`, status: 'queued' });
+    });
+
+    const report = await client.submitJobs(
+      [{ url: 'https://api.example.com/a' }, { url: 'https://api.example.com/b' }],
+      {
+        concurrency: 1,
+        now: () => clock,
+        sleep: async ms => {
+          sleeps.push(ms);
+          clock += ms;
+        },
+      }
+    );
+
+    assert.equal(report.rateLimited.length, 1);
+    assert.ok(report.rateLimited[0].error instanceof RateLimitError);
+    assert.equal(report.rateLimited[0].retryAt, 6000);
+    assert.equal(report.submitted.length, 1);
+    assert.deepEqual(sleeps, [5000]);
+  });
+
+  test('submitJobsIterator pulls inputs lazily and streams results', async () => {
+    let pulled = 0;
+    async function* jobs() {
+      for (let i = 0; i < 5; i++) {
+        pulled++;
+        yield { url: `https://api.example.com/${i}` };
+      }
+    }
+    const client = clientAnswering(() => forwarded(201, { job_id: 'job_1', status: 'queued' }));
+
+    const seen = [];
+    for await (const result of client.submitJobsIterator(jobs(), { concurrency: 1 })) {
+      seen.push(result.index);
+      if (seen.length === 2) break;
+    }
+
+    assert.deepEqual(seen, [0, 1]);
+    assert.ok(pulled <= 3, `pulled ${pulled} inputs for 2 results`);
+  });
+});
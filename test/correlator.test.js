@@ -0,0 +1,89 @@
+const { test, describe } = require('node:test');
+const assert = require('node:assert/strict');
+const {
+  Step,
+  WebhookCorrelator,
+  parseWebhookEvent,
+  EZThrottleError,
+  JobFailedError,
+  TimeoutError,
+} = require('../dist');
+const { recordingClient, recordingHandler, withTestServer, listen, close } = require('./helpers');
+
+const event = (jobId, fields = {}) => parseWebhookEvent(JSON.stringify({
+  job_id: jobId,
+  idempotent_key: `key_${jobId}`,
+  status: 'success',
+  response: { status_code: 200, body: '{"ok":true}' },
+  ...fields,
+}));
+
+describe('WebhookCorrelator', () => {
+  test('resolves waiters by job_id or idempotent key', async () => {
+    const correlator = new WebhookCorrelator();
+    const byJob = correlator.waitFor({ jobId: 'job_1' });
+    const byKey = correlator.waitFor({ idempotentKey: 'key_job_2' });
+    assert.equal(correlator.pendingCount, 2);
+
+    assert.equal(correlator.deliver(event('job_1')), 'matched');
+    assert.equal(correlator.deliver(event('job_2')), 'matched');
+    assert.equal((await byJob).job_id, 'job_1');
+    assert.deepEqual((await byKey).json(), { ok: true });
+    assert.equal(correlator.pendingCount, 0);
+  });
+
+  test('buffers webhooks that arrive before the waiter and drops duplicates', async () => {
+    const correlator = new WebhookCorrelator();
+
+    assert.equal(correlator.deliver(event('job_1')), 'buffered');
+    assert.equal(correlator.deliver(event('job_1', { region: 'lax' })), 'duplicate');
+    assert.equal((await correlator.waitFor({ jobId: 'job_1' })).region, null);
+  });
+
+  test('rejects failed jobs, timeouts and waiters left at close()', async () => {
+    const correlator = new WebhookCorrelator();
+    const failed = correlator.waitFor({ jobId: 'job_1' });
+    correlator.deliver(event('job_1', { status: 'failed', response: { status_code: 502, body: '' } }));
+
+    const error = await failed.catch(e => e);
+    assert.ok(error instanceof JobFailedError);
+    assert.equal(error.response.status_code, 502);
+
+    await assert.rejects(correlator.waitFor({ jobId: 'job_2' }, { timeoutMs: 10 }), TimeoutError);
+
+    const pending = correlator.waitFor({ jobId: 'job_3' });
+    correlator.close();
+    await assert.rejects(pending, EZThrottleError);
+  });
+});
+
+describe('Step.execute({ awaitResult: true })', () => {
+  test('resolves with the webhook of the submitted job', async () => {
+    const correlator = new WebhookCorrelator();
+    const { handler } = recordingHandler({ correlator });
+    const receiver = await listen(handler.node());
+
+    try {
+      await withTestServer({ target: () => ({ status_code: 200, body: '{"charged":true}' }) }, async server => {
+        const result = await new Step(server.client({ correlator }))
+          .url('https://api.example.com/charge')
+          .method('POST')
+          .webhooks([{ url: `http://127.0.0.1:${receiver.address().port}/webhook` }])
+          .execute({ awaitResult: true, timeoutMs: 2000 });
+
+        assert.match(result.job_id, /^job_/);
+        assert.deepEqual(result.json(), { charged: true });
+      });
+    } finally {
+      await close(receiver);
+    }
+  });
+
+  test('requires a correlator on the client', async () => {
+    const { client, jobs } = recordingClient();
+    const step = new Step(client).url('https://api.example.com/charge');
+
+    await assert.rejects(step.execute({ awaitResult: true }), /requires a WebhookCorrelator/);
+    assert.equal(jobs.length, 0);
+  });
+});
@@ -0,0 +1,62 @@
+const { test } = require('node:test');
+const assert = require('node:assert/strict');
+const { parseCron, nextCronOccurrence, nextOccurrences, ValidationError } = require('../dist');
+
+const iso = times => times.map(time => new Date(time).toISOString());
+
+test('parses lists, ranges, steps, names and macros', () => {
+  const cron = parseCron('*/15 9-17 * JAN,JUL MON-FRI');
+  assert.deepEqual([...cron.minutes], [0, 15, 30, 45]);
+  assert.deepEqual([...cron.hours], [9, 10, 11, 12, 13, 14, 15, 16, 17]);
+  assert.deepEqual([...cron.months], [1, 7]);
+  assert.deepEqual([...cron.daysOfWeek], [1, 2, 3, 4, 5]);
+  assert.deepEqual([...parseCron('@weekly').daysOfWeek], [0]);
+  assert.deepEqual([...parseCron('0 0 * * 7').daysOfWeek], [0]);
+});
+
+test('rejects malformed expressions', () => {
+  for (const expression of ['* * * *', '60 * * * *', '* * 0 * *', '*/0 * * * *', '1-2-3 * * * *', 'a * * * *']) {
+    assert.throws(() => parseCron(expression), ValidationError, expression);
+  }
+});
+
+test('rejects days of month that never occur in the selected months', () => {
+  for (const expression of ['0 0 30 2 *', '0 0 31 4,6,9,11 *', '0 0 30-31 FEB *']) {
+    assert.throws(() => parseCron(expression), /never occurs/, expression);
+  }
+  // Either day matches when both are restricted, so the weekday still fires
+  parseCron('0 0 30 2 MON');
+  parseCron('0 0 31 2,3 *');
+});
+
+test('finds Feb 29 across a skipped leap year without blocking', () => {
+  const startedAt = Date.now();
+  const next = nextCronOccurrence(parseCron('0 0 29 2 *'), Date.UTC(2096, 2, 1), 'America/New_York');
+  assert.equal(new Date(next).toISOString(), '2104-02-29T05:00:00.000Z');
+  assert.ok(Date.now() - startedAt < 500);
+});
+
+test('weekday and day of month match either (standard cron)', () => {
+  const cron = parseCron('0 12 13 * FRI');
+  assert.deepEqual(iso(nextOccurrences({ cron: '0 12 13 * FRI' }, { after: Date.UTC(2026, 0, 1), count: 3 })), [
+    '2026-01-02T12:00:00.000Z',
+    '2026-01-09T12:00:00.000Z',
+    '2026-01-13T12:00:00.000Z',
+  ]);
+  assert.equal(cron.matchEitherDay, true);
+});
+
+test('follows DST in the schedule timezone', () => {
+  // New York springs forward on 2026-03-08: 02:30 does not exist that day
+  const spec = { cron: '30 2 * * *', timezone: 'America/New_York' };
+  assert.deepEqual(iso(nextOccurrences(spec, { after: Date.UTC(2026, 2, 7), count: 2 })), [
+    '2026-03-07T07:30:00.000Z',
+    '2026-03-09T06:30:00.000Z',
+  ]);
+
+  // Midnight right after a 23-hour day is not skipped
+  const midnight = { cron: '0 0 * * *', timezone: 'America/New_York' };
+  assert.deepEqual(iso(nextOccurrences(midnight, { after: Date.UTC(2026, 2, 8, 6), count: 1 })), [
+    '2026-03-09T04:00:00.000Z',
+  ]);
+});
@@ -0,0 +1,90 @@
+const { test } = require('node:test');
+const assert = require('node:assert/strict');
+const {
+  EZThrottle,
+  EZThrottleError,
+  RateLimitError,
+  JobRejectedError,
+  TimeoutError,
+  NetworkError,
+} = require('../dist');
+const { clientAnswering, forwarded, withTestServer } = require('./helpers');
+
+test('a 429 forwarded from EZThrottle is a RateLimitError with its retryAt', async () => {
+  const retryAt = Date.now() + 60000;
+  const client = clientAnswering(() => forwarded(429, { error: 'too_many_jobs', retry_at: retryAt }));
+
+  const error = await client.submitJob({ url: 'https://api.example.com' }).catch(e => e);
+  assert.ok(error instanceof RateLimitError);
+  assert.equal(error.retryAt, retryAt);
+  assert.equal(error.isRetryable, true);
+  assert.equal(error.httpStatus, 429);
+});
+
+test('a forwarded Retry-After header sets retryAt', async () => {
+  const client = clientAnswering(() => forwarded(429, { error: 'slow_down' }, { 'Retry-After': '30' }));
+
+  const error = await client.submitJob({ url: 'https://api.example.com' }).catch(e => e);
+  assert.ok(error instanceof RateLimitError);
+  assert.ok(error.retryAt > Date.now() + 25000 && error.retryAt <= Date.now() + 30000);
+});
+
+test('submitJob retries a forwarded 429 no earlier than its retryAt', async () => {
+  let calls = 0;
+  const client = clientAnswering(() => {
+    calls++;
+    return calls === 1
+      ? forwarded(429, { error: 'busy', retry_at: Date.now() + 50 })
+      : forwarded(201, { job_id: 'job_1', status: 'queued' });
+  }, { retry: { maxAttempts: 2, initialDelayMs: 1, jitter: false } });
+
+  const startedAt = Date.now();
+  const created = await client.submitJob({ url: 'https://api.example.com' });
+  assert.equal(created.job_id, 'job_1');
+  assert.equal(calls, 2);
+  assert.ok(Date.now() - startedAt >= 40);
+});
+
+test('batch reports forwarded 429s as rate limited', async () => {
+  const retryAt = Date.now() + 10;
+  const client = clientAnswering(() => forwarded(429, { error: 'busy', retry_at: retryAt }));
+
+  const report = await client.submitJobs([{ url: 'https://api.example.com' }]);
+  assert.equal(report.rateLimited.length, 1);
+  assert.equal(report.rateLimited[0].retryAt, retryAt);
+});
+
+test('other forwarded errors stay JobRejectedError', async () => {
+  const client = clientAnswering(() => forwarded(422, { error: 'url is required' }));
+
+  const error = await client.submitJob({ url: 'https://api.example.com' }).catch(e => e);
+  assert.ok(error instanceof JobRejectedError);
+  assert.equal(error.statusCode, 422);
+  assert.deepEqual(error.body, { error: 'url is required' });
+});
+
+test('a non-JSON 200 from the proxy is an EZThrottleError, not a SyntaxError', async () => {
+  const client = clientAnswering(() => new Response('<html>502 Bad Gateway</html>'));
+
+  const error = await client.getJob('job_1').catch(e => e);
+  assert.ok(error instanceof EZThrottleError);
+  assert.equal(error.httpStatus, 200);
+  assert.match(error.message, /Invalid JSON from proxy/);
+});
+
+test('waitForJob times out with an EZThrottleError', async () => {
+  await withTestServer({ executeDelayMs: 10000 }, async server => {
+    const client = server.client();
+    const { job_id } = await client.submitJob({ url: 'https://api.example.com/slow' });
+
+    const error = await client.waitForJob(job_id, { timeout: 20, pollInterval: 5 }).catch(e => e);
+    assert.ok(error instanceof TimeoutError);
+    assert.ok(error instanceof EZThrottleError);
+    assert.equal(error.isRetryable, false);
+  });
+});
+
+test('an unreachable proxy is a NetworkError', async () => {
+  const client = new EZThrottle({ apiKey: 'test_api_key', tracktagsUrl: 'http://127.0.0.1:1' });
+  await assert.rejects(client.getJob('job_1'), NetworkError);
+});
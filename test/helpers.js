@@ -0,0 +1,119 @@
+// Shared fixtures for the test files (no tests of its own)
+const http = require('node:http');
+const { EZThrottle, Outbox, MemoryOutboxStore, createWebhookHandler, signWebhookPayload } = require('../dist');
+const { createTestServer } = require('../dist/testing');
+
+const WEBHOOK_SECRET = 'test_secret_min_16_chars';
+
+/**
+ * Proxy response carrying EZThrottle's (forwarded) answer
+ */
+function forwarded(statusCode, body, headers) {
+  const forwardedResponse = { status_code: statusCode, body: JSON.stringify(body), headers };
+  return new Response(JSON.stringify({ status: 'allowed', forwarded_response: forwardedResponse }));
+}
+
+/**
+ * Client whose proxy records every call and answers with `respond(request)`
+ * (default: the job is queued as job_<n>)
+ *
+ * `requests` holds { headers, envelope } per proxy call, `jobs` the decoded
+ * wire body of every job submission.
+ */
+function recordingClient(config = {}, respond = null) {
+  const requests = [];
+  const jobs = [];
+  const answer = respond || (() => forwarded(201, { job_id: `job_${jobs.length}`, status: 'queued' }));
+  const client = new EZThrottle({
+    apiKey: 'test_api_key',
+    ...config,
+    transport: async (url, init) => {
+      const envelope = JSON.parse(init.body);
+      const request = { headers: init.headers, envelope };
+      requests.push(request);
+      if (envelope.method === 'POST' && envelope.target_url.endsWith('/api/v1/jobs')) {
+        jobs.push(JSON.parse(envelope.body));
+      }
+      return answer(request);
+    },
+  });
+  return { client, requests, jobs };
+}
+
+/**
+ * Client whose proxy answers every call with `respond()`
+ */
+function clientAnswering(respond, config = {}) {
+  return recordingClient(config, respond).client;
+}
+
+/**
+ * Outbox over an in-memory store with background replay stopped
+ */
+function outboxSubmitting(submit, options = {}) {
+  const outbox = new Outbox(submit, { store: new MemoryOutboxStore(), initialDelayMs: 1000, ...options });
+  outbox.stop();
+  return outbox;
+}
+
+/**
+ * A webhook body for `jobId` and its signature header
+ */
+function signedDelivery(jobId = 'job_1', timestamp = Math.floor(Date.now() / 1000), fields = {}) {
+  const body = JSON.stringify({
+    job_id: jobId,
+    status: 'success',
+    response: { status_code: 200, body: '{}' },
+    ...fields,
+  });
+  return [body, signWebhookPayload(body, WEBHOOK_SECRET, timestamp)];
+}
+
+/**
+ * Webhook handler that records the events reaching its callbacks
+ */
+function recordingHandler(options = {}) {
+  const events = [];
+  const record = (event, info) => {
+    events.push({ job_id: event.job_id, status: event.status, delivery: info.delivery });
+  };
+  const handler = createWebhookHandler({ secrets: WEBHOOK_SECRET, onSuccess: record, onFailure: record, ...options });
+  return { handler, events };
+}
+
+/**
+ * Run `fn` against a fresh test server and stop it afterwards
+ */
+async function withTestServer(options, fn) {
+  const server = await createTestServer({ webhookSecret: WEBHOOK_SECRET, ...options });
+  try {
+    return await fn(server);
+  } finally {
+    await server.stop();
+  }
+}
+
+/**
+ * Start an http server on a free local port
+ */
+function listen(handler) {
+  const server = http.createServer(handler);
+  return new Promise(resolve => server.listen(0, '127.0.0.1', () => resolve(server)));
+}
+
+function close(server) {
+  return new Promise(resolve => server.close(resolve));
+}
+
+module.exports = {
+  WEBHOOK_SECRET,
+  forwarded,
+  recordingClient,
+  clientAnswering,
+  outboxSubmitting,
+  signedDelivery,
+  recordingHandler,
+  withTestServer,
+  listen,
+  close,
+};
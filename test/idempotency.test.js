@@ -0,0 +1,94 @@
+const { test, describe } = require('node:test');
+const assert = require('node:assert/strict');
+const crypto = require('node:crypto');
+const {
+  Step,
+  IdempotentStrategy,
+  ValidationError,
+  canonicalRequest,
+  deriveIdempotentKey,
+} = require('../dist');
+const { IDEMPOTENCY_TEST_VECTORS, checkIdempotencyVectors } = require('../dist/testing');
+const { recordingClient, withTestServer } = require('./helpers');
+
+describe('idempotency test vectors', () => {
+  for (const vector of IDEMPOTENCY_TEST_VECTORS) {
+    test(vector.name, () => {
+      assert.equal(canonicalRequest(vector.input), vector.canonical);
+      assert.equal(crypto.createHash('sha256').update(vector.canonical, 'utf8').digest('hex'), vector.key);
+    });
+  }
+
+  test('deriveIdempotentKey matches every vector', () => {
+    assert.deepEqual(checkIdempotencyVectors(), []);
+  });
+
+  test('reports an implementation that disagrees', () => {
+    const mismatches = checkIdempotencyVectors(input => deriveIdempotentKey({ ...input, method: 'DELETE' }));
+    assert.equal(mismatches.length, IDEMPOTENCY_TEST_VECTORS.length);
+  });
+});
+
+describe('Step idempotent keys', () => {
+  const charge = client =>
+    new Step(client)
+      .url('https://api.example.com/charges')
+      .method('POST')
+      .body('{"amount":1000,"currency":"usd"}');
+
+  test('HASH steps leave the key to EZThrottle by default', async () => {
+    const { client, jobs } = recordingClient();
+    const step = charge(client);
+    await step.execute();
+
+    assert.equal(jobs[0].idempotent_key, undefined);
+    assert.equal(step.computeIdempotentKey(), null);
+  });
+
+  test('with sendIdempotentKeys, HASH steps send the key computeIdempotentKey() returns', async () => {
+    const { client, jobs } = recordingClient({ sendIdempotentKeys: true });
+    const step = charge(client);
+    await step.execute();
+
+    assert.equal(jobs[0].idempotent_key, step.computeIdempotentKey());
+    assert.equal(jobs[0].idempotent_key, deriveIdempotentKey({
+      url: 'https://api.example.com/charges',
+      method: 'POST',
+      body: '{"amount":1000,"currency":"usd"}',
+    }));
+  });
+
+  test('namespaces the key that is sent', async () => {
+    const { client, jobs } = recordingClient({ idempotencyNamespace: 'staging' });
+    const step = charge(client);
+    await step.execute();
+
+    assert.match(jobs[0].idempotent_key, /^staging:[0-9a-f]{64}$/);
+    assert.equal(jobs[0].idempotent_key, step.computeIdempotentKey());
+  });
+
+  test('renders templates and rejects missing values', async () => {
+    const { client, jobs } = recordingClient();
+    await charge(client).metadata({ orderId: 1234 }).idempotentKeyTemplate('order:{metadata.orderId}').execute();
+    assert.equal(jobs[0].idempotent_key, 'order:1234');
+
+    const missing = charge(client).idempotentKeyTemplate('order:{metadata.orderId}');
+    assert.throws(() => missing.computeIdempotentKey(), ValidationError);
+  });
+
+  test('UNIQUE steps have no key to compute', () => {
+    const { client } = recordingClient();
+    assert.equal(charge(client).idempotentStrategy(IdempotentStrategy.UNIQUE).computeIdempotentKey(), null);
+  });
+
+  test('the test server files the job under the sent key', async () => {
+    await withTestServer({}, async server => {
+      const client = server.client({ sendIdempotentKeys: true });
+      const step = charge(client);
+      const { job_id } = await step.execute();
+
+      const job = await client.getJobByIdempotentKey(step.computeIdempotentKey());
+      assert.equal(job.job_id, job_id);
+    });
+  });
+});
@@ -0,0 +1,167 @@
+const { test, describe, before, after } = require('node:test');
+const assert = require('node:assert/strict');
+const {
+  Step,
+  StepType,
+  JobFailedError,
+  JobRejectedError,
+  NotFoundError,
+  TimeoutError,
+  ValidationError,
+} = require('../dist');
+const { forwarded, recordingClient, withTestServer, listen, close } = require('./helpers');
+
+// /fail answers 500, anything else 200 with the path echoed back
+const target = ({ url }) => (url.endsWith('/fail')
+  ? { status_code: 500, body: '{"error":"boom"}' }
+  : { status_code: 200, body: JSON.stringify({ path: new URL(url).pathname }) });
+
+describe('waiting for jobs', () => {
+  test('queueAndWait resolves with the final response', async () => {
+    await withTestServer({ target }, async server => {
+      const response = await server.client().queueAndWait({
+        url: 'https://api.example.com/report',
+        pollInterval: 10,
+        timeout: 2000,
+      });
+
+      assert.equal(response.status_code, 200);
+      assert.deepEqual(JSON.parse(response.body), { path: '/report' });
+    });
+  });
+
+  test('getJob reports the job status and final response', async () => {
+    await withTestServer({ target }, async server => {
+      const client = server.client();
+      const { job_id } = await client.submitJob({ url: 'https://api.example.com/report' });
+      await client.waitForJob(job_id, { pollInterval: 10, timeout: 2000 });
+
+      const job = await client.getJob(job_id);
+      assert.equal(job.job_id, job_id);
+      assert.equal(job.status, 'success');
+      assert.equal(job.response.status_code, 200);
+      await assert.rejects(client.getJob(''), ValidationError);
+    });
+  });
+
+  test('waitForJob throws JobFailedError for failed jobs', async () => {
+    await withTestServer({ target }, async server => {
+      const client = server.client();
+      const { job_id } = await client.submitJob({ url: 'https://api.example.com/fail' });
+
+      const error = await client.waitForJob(job_id, { pollInterval: 10, timeout: 2000 }).catch(e => e);
+      assert.ok(error instanceof JobFailedError);
+      assert.equal(error.jobId, job_id);
+      assert.equal(error.response.status_code, 500);
+    });
+  });
+
+  test('waitForJob gives up after `timeout`', async () => {
+    await withTestServer({ target, executeDelayMs: 5000 }, async server => {
+      const client = server.client();
+      const { job_id } = await client.submitJob({ url: 'https://api.example.com/slow' });
+
+      await assert.rejects(client.waitForJob(job_id, { pollInterval: 10, timeout: 50 }), TimeoutError);
+    });
+  });
+});
+
+describe('Step.executeAndWait', () => {
+  let local;
+  let localUrl;
+
+  before(async () => {
+    local = await listen((req, res) => {
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end('{"local":true}');
+    });
+    localUrl = `http://127.0.0.1:${local.address().port}`;
+  });
+
+  after(() => close(local));
+
+  test('resolves FRUGAL steps that complete locally without a job', async () => {
+    await withTestServer({ target }, async server => {
+      const response = await new Step(server.client()).type(StepType.FRUGAL).url(`${localUrl}/ok`).executeAndWait();
+
+      assert.equal(response.status_code, 200);
+      assert.equal(response.body, '{"local":true}');
+      assert.equal(server.jobs.length, 0);
+    });
+  });
+
+  test('polls PERFORMANCE jobs until they finish', async () => {
+    await withTestServer({ target }, async server => {
+      const response = await new Step(server.client())
+        .url('https://api.example.com/queued')
+        .executeAndWait(null, { pollInterval: 10, timeout: 2000 });
+
+      assert.equal(response.status_code, 200);
+      assert.deepEqual(JSON.parse(response.body), { path: '/queued' });
+    });
+  });
+
+  test('throws JobFailedError when the job fails', async () => {
+    await withTestServer({ target }, async server => {
+      const step = new Step(server.client()).url('https://api.example.com/fail');
+
+      await assert.rejects(step.executeAndWait(null, { pollInterval: 10, timeout: 2000 }), JobFailedError);
+    });
+  });
+});
+
+describe('job management', () => {
+  test('listJobs filters and pages through jobs, newest first', async () => {
+    await withTestServer({ target, executeDelayMs: 5000 }, async server => {
+      const client = server.client();
+      const ids = [];
+      for (let i = 0; i < 3; i++) {
+        ids.push((await client.submitJob({ url: `https://api.example.com/${i}` })).job_id);
+      }
+
+      const first = await client.listJobs({ status: 'queued', limit: 2 });
+      assert.deepEqual(first.jobs.map(job => job.job_id), [ids[2], ids[1]]);
+      assert.equal(first.has_more, true);
+
+      const second = await client.listJobs({ status: 'queued', cursor: first.next_cursor });
+      assert.deepEqual(second.jobs.map(job => job.job_id), [ids[0]]);
+      assert.deepEqual([second.has_more, second.next_cursor], [false, null]);
+
+      assert.deepEqual((await client.listJobs({ status: 'success' })).jobs, []);
+    });
+  });
+
+  test('listJobs sends filters as snake_case query parameters', async () => {
+    const { client, requests } = recordingClient({}, () => forwarded(200, { jobs: [] }));
+    const page = await client.listJobs({ status: 'failed', idempotentKey: 'order:1', since: 1000, limit: 5 });
+
+    const { searchParams } = new URL(requests[0].envelope.target_url);
+    assert.equal(requests[0].envelope.method, 'GET');
+    assert.deepEqual(Object.fromEntries(searchParams), { status: 'failed', idempotent_key: 'order:1', since: '1000', limit: '5' });
+    assert.deepEqual(page, { jobs: [], next_cursor: null, has_more: false });
+  });
+
+  test('getJobByIdempotentKey finds the job, or null', async () => {
+    await withTestServer({ target }, async server => {
+      const client = server.client();
+      const { job_id } = await client.submitJob({ url: 'https://api.example.com/a', idempotentKey: 'order:1' });
+
+      assert.equal((await client.getJobByIdempotentKey('order:1')).job_id, job_id);
+      assert.equal(await client.getJobByIdempotentKey('order:2'), null);
+      await assert.rejects(client.getJobByIdempotentKey(''), ValidationError);
+    });
+  });
+
+  test('cancelJob cancels pending jobs and rejects finished or unknown ones', async () => {
+    await withTestServer({ target, executeDelayMs: 5000 }, async server => {
+      const client = server.client();
+      const { job_id } = await client.submitJob({ url: 'https://api.example.com/later' });
+
+      assert.deepEqual(await client.cancelJob(job_id), { job_id, status: 'cancelled' });
+      assert.equal((await client.getJob(job_id)).status, 'cancelled');
+      await assert.rejects(client.cancelJob(job_id), JobRejectedError);
+      await assert.rejects(client.cancelJob('job_missing'), NotFoundError);
+      await assert.rejects(client.waitForJob(job_id, { pollInterval: 10, timeout: 2000 }), JobFailedError);
+    });
+  });
+});
@@ -0,0 +1,87 @@
+const { test, describe } = require('node:test');
+const assert = require('node:assert/strict');
+const { Redactor, createRedactingLogger, silentLogger, JobRejectedError } = require('../dist');
+const { forwarded, recordingClient } = require('./helpers');
+
+describe('Redactor', () => {
+  const redactor = new Redactor({ fields: ['card_number'], secrets: ['sk_live_123'] });
+
+  test('scrubs sensitive fields in nested objects and JSON bodies', () => {
+    const redacted = redactor.redact({
+      headers: { Authorization: 'Bearer abc', 'X-Api-Key': 'k', 'Content-Type': 'application/json' },
+      body: '{"card_number":"4242","amount":10}',
+      nested: [{ access_token: 't', id: 1 }],
+    });
+
+    assert.deepEqual(redacted, {
+      headers: { Authorization: '[REDACTED]', 'X-Api-Key': '[REDACTED]', 'Content-Type': 'application/json' },
+      body: '{"card_number":"[REDACTED]","amount":10}',
+      nested: [{ access_token: '[REDACTED]', id: 1 }],
+    });
+  });
+
+  test('scrubs credentials and known secrets in plain text', () => {
+    assert.equal(
+      redactor.redact('retrying with Bearer eyJhbGci.x and key sk_live_123'),
+      'retrying with Bearer [REDACTED] and key [REDACTED]'
+    );
+  });
+
+  test('copies values, handling errors and cycles', () => {
+    const context = { error: new Error('bad key sk_live_123') };
+    context.self = context;
+
+    const redacted = redactor.redact(context);
+    assert.deepEqual(redacted, { error: { name: 'Error', message: 'bad key [REDACTED]' }, self: '[Circular]' });
+    assert.equal(context.error.message, 'bad key sk_live_123');
+  });
+
+  test('redactError scrubs the message and attached body in place', () => {
+    const error = new JobRejectedError('rejected sk_live_123', 400, { secret: 's', reason: 'bad' });
+
+    assert.equal(redactor.redactError(error), error);
+    assert.equal(error.message, 'rejected [REDACTED]');
+    assert.deepEqual(error.body, { secret: '[REDACTED]', reason: 'bad' });
+  });
+});
+
+describe('createRedactingLogger', () => {
+  test('redacts every context and tolerates partial or failing loggers', () => {
+    const lines = [];
+    const logger = createRedactingLogger({
+      info: (message, context) => lines.push([message, context]),
+      warn: () => {
+        throw new Error('disk full');
+      },
+    }, new Redactor());
+
+    logger.info('sent', { headers: { Cookie: 'session=1' } });
+    logger.warn('ignored');
+    logger.debug('no debug method');
+
+    assert.deepEqual(lines, [['sent', { headers: { Cookie: '[REDACTED]' } }]]);
+    assert.equal(createRedactingLogger(undefined, new Redactor()), silentLogger);
+  });
+});
+
+test('the client never logs or throws its apiKey', async () => {
+  const lines = [];
+  const log = (message, context) => lines.push(JSON.stringify([message, context]));
+  const { client } = recordingClient(
+    { apiKey: 'key_abcdef123456', logger: { debug: log, info: log, warn: log, error: log } },
+    () => forwarded(400, { error: 'invalid api key key_abcdef123456' })
+  );
+
+  const error = await client.submitJob({
+    url: 'https://api.example.com/charge',
+    headers: { Authorization: 'Bearer key_abcdef123456' },
+  }).catch(e => e);
+
+  assert.ok(error instanceof JobRejectedError);
+  assert.deepEqual(error.body, { error: 'invalid api key [REDACTED]' });
+  assert.doesNotMatch(error.message, /key_abcdef123456/);
+  assert.ok(lines.length > 0);
+  for (const line of lines) {
+    assert.doesNotMatch(line, /key_abcdef123456/);
+  }
+});
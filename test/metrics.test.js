@@ -0,0 +1,48 @@
+const { test } = require('node:test');
+const assert = require('node:assert/strict');
+const { MetricsCollector } = require('../dist');
+
+test('a fanout job costs at least one request per region', () => {
+  const metrics = new MetricsCollector();
+  metrics.recordSubmit({
+    url: 'https://api.example.com/broadcast',
+    executionMode: 'fanout',
+    regions: ['iad', 'lax', 'ord'],
+    onFailure: { url: 'https://api.example.com/alert', method: 'POST' },
+  }, 12);
+
+  const { quota } = metrics.snapshot();
+  assert.equal(quota.jobs_submitted, 1);
+  assert.equal(quota.min_requests, 3);
+  assert.equal(quota.max_requests, 4);
+});
+
+test('race jobs and their fallbacks', () => {
+  const metrics = new MetricsCollector();
+  metrics.recordSubmit({
+    url: 'https://api.example.com/charge',
+    regions: ['iad', 'lax'],
+    fallbackJob: { url: 'https://backup.example.com/charge', method: 'GET', executionMode: 'fanout', regions: ['iad', 'ord'] },
+  }, 5);
+
+  const { quota, hosts } = metrics.snapshot();
+  assert.equal(quota.min_requests, 1);
+  // Both regions of the race, then both of the fallback
+  assert.equal(quota.max_requests, 4);
+  assert.equal(hosts['api.example.com'].submit_latency.count, 1);
+});
+
+test('the upper bound counts every retry and reroute in every region', () => {
+  const metrics = new MetricsCollector();
+  metrics.recordSubmit({
+    url: 'https://api.example.com/broadcast',
+    executionMode: 'fanout',
+    regions: ['iad', 'lax', 'ord'],
+    retryPolicy: { max_retries: 2, max_reroutes: 1 },
+    onFailure: { url: 'https://api.example.com/alert', method: 'POST', retryPolicy: { max_retries: 3 } },
+  }, 8);
+
+  const { quota } = metrics.snapshot();
+  assert.equal(quota.min_requests, 3);
+  assert.equal(quota.max_requests, 4 * 3 + 4);
+});
@@ -0,0 +1,64 @@
+const { test } = require('node:test');
+const assert = require('node:assert/strict');
+const { RateLimitError, JobRejectedError, NetworkError } = require('../dist');
+const { outboxSubmitting } = require('./helpers');
+
+test('replays queued jobs once EZThrottle is back', async () => {
+  const replayed = [];
+  const outbox = outboxSubmitting(async job => ({ job_id: `job_${job.idempotentKey}`, status: 'queued' }), {
+    onReplayed: (entry, result) => replayed.push(result.job_id),
+  });
+
+  const ack = await outbox.enqueue({ url: 'https://api.example.com', idempotentKey: 'a' });
+  outbox.stop();
+  assert.equal(ack.status, 'outboxed');
+  assert.equal(ack.idempotent_key, 'a');
+
+  assert.deepEqual(await outbox.drain({ timeoutMs: 100 }), { replayed: 1, dropped: 0, remaining: 0 });
+  assert.deepEqual(replayed, ['job_a']);
+});
+
+test('keeps rate-limited jobs queued until retryAt', async () => {
+  const retryAt = Date.now() + 60000;
+  const dropped = [];
+  const outbox = outboxSubmitting(async () => {
+    throw new RateLimitError('Rate limited: busy', retryAt);
+  }, { onDropped: entry => dropped.push(entry) });
+
+  await outbox.enqueue({ url: 'https://api.example.com', idempotentKey: 'a' });
+  outbox.stop();
+  const result = await outbox.drain({ timeoutMs: 0 });
+
+  assert.deepEqual(result, { replayed: 0, dropped: 0, remaining: 1 });
+  assert.deepEqual(dropped, []);
+  const [entry] = await outbox.pending();
+  assert.equal(entry.nextAttemptAt, retryAt);
+  assert.equal(entry.attempts, 1);
+});
+
+test('keeps jobs queued while EZThrottle is unreachable', async () => {
+  const outbox = outboxSubmitting(async () => {
+    throw new NetworkError('Proxy unreachable: ECONNREFUSED');
+  });
+
+  await outbox.enqueue({ url: 'https://api.example.com' });
+  outbox.stop();
+  const result = await outbox.drain({ timeoutMs: 0 });
+
+  assert.equal(result.remaining, 1);
+  const [entry] = await outbox.pending();
+  assert.ok(entry.nextAttemptAt > Date.now());
+});
+
+test('drops jobs EZThrottle rejects outright', async () => {
+  const dropped = [];
+  const outbox = outboxSubmitting(async () => {
+    throw new JobRejectedError('EZThrottle job creation failed', 422, { error: 'url is required' });
+  }, { onDropped: (entry, error) => dropped.push(error) });
+
+  await outbox.enqueue({ url: 'https://api.example.com' });
+  outbox.stop();
+
+  assert.deepEqual(await outbox.drain({ timeoutMs: 0 }), { replayed: 0, dropped: 1, remaining: 0 });
+  assert.ok(dropped[0] instanceof JobRejectedError);
+});
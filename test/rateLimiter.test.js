@@ -0,0 +1,67 @@
+const { test } = require('node:test');
+const assert = require('node:assert/strict');
+const { HostRateLimiter, CancelledError, Step, StepType, EZThrottle } = require('../dist');
+
+test('paces and queues requests per host', async () => {
+  const limiter = new HostRateLimiter({ rps: 100, maxConcurrent: 1, maxWaitMs: 1000 });
+  const first = await limiter.acquire('api.example.com');
+  const queued = limiter.acquire('api.example.com');
+  assert.equal(limiter.limits('api.example.com').queued, 1);
+
+  first();
+  const second = await queued;
+  assert.equal(typeof second, 'function');
+  assert.equal(limiter.limits('api.example.com').active, 1);
+  second();
+});
+
+test('returns null instead of waiting past maxWaitMs', async () => {
+  const limiter = new HostRateLimiter({ maxConcurrent: 1, maxWaitMs: 10 });
+  const release = await limiter.acquire('api.example.com');
+  assert.equal(await limiter.acquire('api.example.com'), null);
+  release();
+});
+
+test('a cancelled caller leaves the queue for a slot', async () => {
+  const limiter = new HostRateLimiter({ maxConcurrent: 1, maxWaitMs: 5000 });
+  const release = await limiter.acquire('api.example.com');
+  const controller = new AbortController();
+
+  const waiting = limiter.acquire('api.example.com', controller.signal);
+  controller.abort();
+  await assert.rejects(waiting, CancelledError);
+  assert.equal(limiter.limits('api.example.com').queued, 0);
+
+  release();
+  assert.equal(limiter.limits('api.example.com').active, 0);
+});
+
+test('a cancelled caller gives back its token and slot while paced', async () => {
+  const limiter = new HostRateLimiter({ rps: 1, burst: 1, maxWaitMs: 5000 });
+  (await limiter.acquire('api.example.com'))();
+  const controller = new AbortController();
+
+  const waiting = limiter.acquire('api.example.com', controller.signal);
+  setTimeout(() => controller.abort(), 10);
+  await assert.rejects(waiting, CancelledError);
+  assert.equal(limiter.limits('api.example.com').active, 0);
+});
+
+test('a cancelled FRUGAL execute stops waiting for the local limiter', async () => {
+  const client = new EZThrottle({
+    apiKey: 'test_api_key',
+    localRateLimit: { maxConcurrent: 1, maxWaitMs: 60000 },
+    transport: () => new Promise(() => undefined),
+  });
+  const hold = await client.localLimiter.acquire('api.example.com');
+  const controller = new AbortController();
+
+  const startedAt = Date.now();
+  const execution = new Step(client).url('https://api.example.com/slow').type(StepType.FRUGAL)
+    .execute({ signal: controller.signal });
+  setTimeout(() => controller.abort(), 20);
+
+  await assert.rejects(execution, CancelledError);
+  assert.ok(Date.now() - startedAt < 1000);
+  hold();
+});
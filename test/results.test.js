@@ -0,0 +1,72 @@
+const { test } = require('node:test');
+const assert = require('node:assert/strict');
+const { EZThrottle, Step, StepType } = require('../dist');
+const { forwarded } = require('./helpers');
+
+// Local requests answer `local(url)`; proxy calls queue job_1
+function clientServing(local) {
+  return new EZThrottle({
+    apiKey: 'test_api_key',
+    localRateLimit: false,
+    transport: async url => (url.endsWith('/api/v1/proxy')
+      ? forwarded(201, { job_id: 'job_1', idempotent_key: 'key_1', status: 'queued' })
+      : local(url)),
+  });
+}
+
+test('LocalSuccess decodes data lazily, once, and keeps it out of JSON', async () => {
+  const client = clientServing(() => new Response('{"id":7}', { headers: { 'X-Request-Id': 'r1' } }));
+  let decodes = 0;
+  const result = await new Step(client)
+    .type(StepType.FRUGAL)
+    .url('https://api.example.com/users/7')
+    .decode(body => {
+      decodes++;
+      return { user: JSON.parse(body).id };
+    })
+    .execute();
+
+  assert.equal(result.status, 'success');
+  assert.equal(result.executed_locally, true);
+  assert.equal(result.status_code, 200);
+  assert.equal(result.headers['x-request-id'], 'r1');
+  assert.equal(result.response, '{"id":7}');
+  assert.equal(decodes, 0);
+
+  assert.deepEqual(result.data, { user: 7 });
+  assert.deepEqual(result.data, { user: 7 });
+  assert.equal(decodes, 1);
+  assert.equal('data' in JSON.parse(JSON.stringify(result)), false);
+});
+
+test('a body that is not JSON only throws when data is read', async () => {
+  const client = clientServing(() => new Response('plain text'));
+  const result = await new Step(client).type(StepType.FRUGAL).url('https://api.example.com/text').execute();
+
+  assert.equal(result.response, 'plain text');
+  assert.throws(() => result.data, SyntaxError);
+});
+
+test('LocalFailure carries the response and an error message', async () => {
+  const client = clientServing(() => new Response('{"error":"nope"}', { status: 404 }));
+  const result = await new Step(client).type(StepType.FRUGAL).url('https://api.example.com/missing').execute();
+
+  assert.equal(result.status, 'failed');
+  assert.equal(result.executed_locally, true);
+  assert.equal(result.status_code, 404);
+  assert.equal(result.response, '{"error":"nope"}');
+  assert.match(result.error, /404/);
+  assert.equal(result.trace.length, 1);
+});
+
+test('Queued carries the job and the raw submission', async () => {
+  const client = clientServing(() => new Response('', { status: 503 }));
+  const result = await new Step(client).type(StepType.FRUGAL).url('https://api.example.com/flaky').execute();
+
+  assert.equal(result.status, 'queued');
+  assert.equal(result.executed_locally, false);
+  assert.equal(result.job_id, 'job_1');
+  assert.equal(result.idempotent_key, 'key_1');
+  assert.deepEqual(result.submission, { job_id: 'job_1', idempotent_key: 'key_1', status: 'queued' });
+  assert.deepEqual(result.trace.map(entry => entry.outcome), ['failed', 'forwarded']);
+});
@@ -0,0 +1,125 @@
+const { test, describe } = require('node:test');
+const assert = require('node:assert/strict');
+const {
+  withRetry,
+  backoffDelay,
+  CancelledError,
+  JobRejectedError,
+  NetworkError,
+  RateLimitError,
+  ValidationError,
+} = require('../dist');
+const { forwarded, recordingClient } = require('./helpers');
+
+// Fails with `errors` in turn, then resolves with 'done'
+function failing(...errors) {
+  const fn = async () => {
+    fn.calls++;
+    if (errors.length > 0) throw errors.shift();
+    return 'done';
+  };
+  fn.calls = 0;
+  return fn;
+}
+
+function recordSleeps(options = {}) {
+  const sleeps = [];
+  return { sleeps, options: { jitter: false, sleep: async ms => { sleeps.push(ms); }, ...options } };
+}
+
+test('backoffDelay grows exponentially up to maxDelayMs', () => {
+  assert.deepEqual([1, 2, 3].map(attempt => backoffDelay(attempt)), [500, 1000, 2000]);
+  assert.equal(backoffDelay(10, { initialDelayMs: 100, multiplier: 3, maxDelayMs: 5000 }), 5000);
+});
+
+describe('withRetry', () => {
+  test('retries retryable errors with backoff until an attempt succeeds', async () => {
+    const fn = failing(new NetworkError('reset'), new JobRejectedError('busy', 503, null));
+    const { sleeps, options } = recordSleeps({ maxAttempts: 3 });
+
+    assert.equal(await withRetry(fn, options), 'done');
+    assert.equal(fn.calls, 3);
+    assert.deepEqual(sleeps, [500, 1000]);
+  });
+
+  test('applies full jitter to each delay', async () => {
+    const { sleeps, options } = recordSleeps({ maxAttempts: 2, jitter: true, random: () => 0.5 });
+
+    await withRetry(failing(new NetworkError('reset')), options);
+    assert.deepEqual(sleeps, [250]);
+  });
+
+  test('gives up after maxAttempts, and never retries by default', async () => {
+    const { options } = recordSleeps({ maxAttempts: 2 });
+    const twice = failing(new NetworkError('a'), new NetworkError('b'), new NetworkError('c'));
+    await assert.rejects(withRetry(twice, options), /b/);
+    assert.equal(twice.calls, 2);
+
+    const once = failing(new NetworkError('a'));
+    await assert.rejects(withRetry(once), NetworkError);
+    assert.equal(once.calls, 1);
+  });
+
+  test('does not retry non-retryable errors or cancellations', async () => {
+    const { sleeps, options } = recordSleeps({ maxAttempts: 5, shouldRetry: error => error.isRetryable });
+    // Cancellations stop even when shouldRetry would say yes
+    const cancelled = Object.assign(new CancelledError('stop'), { isRetryable: true });
+
+    for (const error of [new JobRejectedError('bad', 422, null), new ValidationError('bad'), cancelled]) {
+      const fn = failing(error);
+      await assert.rejects(withRetry(fn, options), error);
+      assert.equal(fn.calls, 1);
+    }
+    assert.deepEqual(sleeps, []);
+  });
+
+  test('honors a custom shouldRetry', async () => {
+    const seen = [];
+    const { options } = recordSleeps({
+      maxAttempts: 3,
+      shouldRetry: (error, attempt) => {
+        seen.push(attempt);
+        return error.message === 'transient';
+      },
+    });
+
+    await assert.rejects(withRetry(failing(new Error('transient'), new Error('fatal')), options), /fatal/);
+    assert.deepEqual(seen, [1, 2]);
+  });
+
+  test('waits for RateLimitError.retryAt, and gives up if it is beyond maxDelayMs', async () => {
+    const clock = 10000;
+    const { sleeps, options } = recordSleeps({ maxAttempts: 2, now: () => clock });
+
+    await withRetry(failing(new RateLimitError('busy', clock + 4000)), options);
+    assert.deepEqual(sleeps, [4000]);
+
+    const tooLate = failing(new RateLimitError('busy', clock + 60000));
+    await assert.rejects(withRetry(tooLate, options), RateLimitError);
+    assert.equal(tooLate.calls, 1);
+  });
+
+  test('stops between attempts when the signal fires', async () => {
+    const controller = new AbortController();
+    const fn = failing(new NetworkError('reset'));
+    const options = { maxAttempts: 3, jitter: false, sleep: async () => controller.abort() };
+
+    await assert.rejects(withRetry(fn, options, controller.signal), CancelledError);
+    assert.equal(fn.calls, 1);
+  });
+});
+
+test('submitJob resends the identical job body on retry', async () => {
+  let calls = 0;
+  const { client, requests } = recordingClient(
+    { retry: { maxAttempts: 3, jitter: false, sleep: async () => undefined } },
+    () => (++calls < 3 ? forwarded(503, { error: 'unavailable' }) : forwarded(201, { job_id: 'job_1', status: 'queued' }))
+  );
+
+  const created = await client.submitJob({ url: 'https://api.example.com/charge', method: 'POST', idempotentKey: 'order:1' });
+
+  assert.equal(created.job_id, 'job_1');
+  assert.equal(requests.length, 3);
+  assert.equal(new Set(requests.map(r => r.envelope.body)).size, 1);
+  assert.equal(JSON.parse(requests[0].envelope.body).idempotent_key, 'order:1');
+});
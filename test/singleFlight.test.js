@@ -0,0 +1,135 @@
+const { test, describe } = require('node:test');
+const assert = require('node:assert/strict');
+const {
+  EZThrottle,
+  Step,
+  StepType,
+  IdempotentStrategy,
+  SingleFlight,
+  MemorySingleFlightStore,
+  CancelledError,
+} = require('../dist');
+
+// Client whose local requests take 20ms and are counted per URL
+function countingClient(singleFlight = true) {
+  const requests = [];
+  const client = new EZThrottle({
+    apiKey: 'test_api_key',
+    localRateLimit: false,
+    singleFlight,
+    transport: async (url, init) => {
+      requests.push({ url, body: init.body });
+      await new Promise(resolve => setTimeout(resolve, 20));
+      return new Response(`{"n":${requests.length}}`);
+    },
+  });
+  return { client, requests };
+}
+
+const charge = (client, amount = 1000) =>
+  new Step(client)
+    .type(StepType.FRUGAL)
+    .url('https://api.example.com/charges')
+    .method('POST')
+    .body(JSON.stringify({ amount }));
+
+describe('single-flight FRUGAL execution', () => {
+  test('concurrent identical HASH steps share one local request', async () => {
+    const { client, requests } = countingClient();
+
+    const results = await Promise.all([charge(client).execute(), charge(client).execute(), charge(client).execute()]);
+
+    assert.equal(requests.length, 1);
+    assert.deepEqual(results.map(result => result.data), [{ n: 1 }, { n: 1 }, { n: 1 }]);
+    // Each caller gets its own copy
+    assert.notEqual(results[0].trace, results[1].trace);
+  });
+
+  test('different requests, UNIQUE steps and opted-out calls run separately', async () => {
+    const { client, requests } = countingClient();
+
+    await Promise.all([
+      charge(client, 1).execute(),
+      charge(client, 2).execute(),
+      charge(client, 3).idempotentStrategy(IdempotentStrategy.UNIQUE).execute(),
+      charge(client, 3).idempotentStrategy(IdempotentStrategy.UNIQUE).execute(),
+      charge(client, 4).execute({ singleFlight: false }),
+      charge(client, 4).execute({ singleFlight: false }),
+    ]);
+
+    assert.equal(requests.length, 6);
+  });
+
+  test('repeats within resultTtlMs reuse the finished result', async () => {
+    const cached = countingClient({ resultTtlMs: 5000 });
+    await charge(cached.client).execute();
+    await charge(cached.client).execute();
+    assert.equal(cached.requests.length, 1);
+
+    const uncached = countingClient({ resultTtlMs: 0 });
+    await charge(uncached.client).execute();
+    await charge(uncached.client).execute();
+    assert.equal(uncached.requests.length, 2);
+  });
+
+  test('is off unless the client enables it', async () => {
+    const { client, requests } = countingClient(false);
+    await Promise.all([charge(client).execute(), charge(client).execute()]);
+    assert.equal(requests.length, 2);
+  });
+});
+
+describe('SingleFlight', () => {
+  test('shares errors with current callers but never caches them', async () => {
+    const flight = new SingleFlight();
+    let runs = 0;
+    const failOnce = async () => {
+      runs++;
+      await new Promise(resolve => setTimeout(resolve, 10));
+      if (runs === 1) throw new Error('boom');
+      return 'ok';
+    };
+
+    const results = await Promise.allSettled([flight.run('k', failOnce), flight.run('k', failOnce)]);
+    assert.deepEqual(results.map(r => r.status), ['rejected', 'rejected']);
+    assert.equal(await flight.run('k', failOnce), 'ok');
+    assert.equal(runs, 2);
+  });
+
+  test('keeps running until every caller has cancelled', async () => {
+    const flight = new SingleFlight();
+    let runSignal;
+    const fn = signal => {
+      runSignal = signal;
+      return new Promise(resolve => setTimeout(() => resolve('done'), 30));
+    };
+    const first = new AbortController();
+    const second = new AbortController();
+
+    const a = flight.run('k', fn, first.signal);
+    const b = flight.run('k', fn, second.signal);
+    first.abort();
+    await assert.rejects(a, CancelledError);
+    assert.equal(runSignal.aborted, false);
+
+    second.abort();
+    await assert.rejects(b, CancelledError);
+    assert.equal(runSignal.aborted, true);
+  });
+
+  test('a process waiting on another one reads its result from the shared store', async () => {
+    const store = new MemorySingleFlightStore();
+    const leader = new SingleFlight({ store });
+    const follower = new SingleFlight({ store, pollIntervalMs: 5 });
+    let runs = 0;
+    const fn = async () => {
+      runs++;
+      await new Promise(resolve => setTimeout(resolve, 30));
+      return { n: runs };
+    };
+
+    const [a, b] = await Promise.all([leader.run('k', fn), follower.run('k', fn)]);
+    assert.deepEqual([a, b], [{ n: 1 }, { n: 1 }]);
+    assert.equal(runs, 1);
+  });
+});
@@ -0,0 +1,89 @@
+const { test } = require('node:test');
+const assert = require('node:assert/strict');
+const { Step, StepType, IdempotentStrategy, STEP_DEFINITION_VERSION, ValidationError } = require('../dist');
+const { recordingClient } = require('./helpers');
+
+const templated = () =>
+  new Step()
+    .url('https://api.example.com/charges')
+    .method('POST')
+    .metadata({ orderId: 1234 })
+    .idempotentKeyTemplate('order:{metadata.orderId}');
+
+test('toJSON writes the current definition version and keeps templates', () => {
+  const definition = templated().toJSON();
+  assert.equal(definition.version, STEP_DEFINITION_VERSION);
+  assert.equal(STEP_DEFINITION_VERSION, 2);
+
+  const restored = Step.fromJSON(JSON.stringify(definition));
+  assert.equal(restored.computeIdempotentKey(), 'order:1234');
+});
+
+test('fromJSON loads version 1 definitions, which have no templates', () => {
+  const definition = { ...templated().toJSON(), version: 1 };
+  const restored = Step.fromJSON(definition);
+
+  assert.equal(restored.toJSON().idempotentKeyTemplate, null);
+  assert.equal(restored.toJSON().url, 'https://api.example.com/charges');
+  // Falls back to HASH, whose key EZThrottle derives
+  assert.equal(restored.computeIdempotentKey(), null);
+});
+
+test('fromJSON rejects definitions from a newer SDK', () => {
+  const definition = { ...templated().toJSON(), version: STEP_DEFINITION_VERSION + 1 };
+  assert.throws(() => Step.fromJSON(definition), ValidationError);
+});
+
+const workflow = () =>
+  new Step()
+    .type(StepType.PERFORMANCE)
+    .url('https://api.example.com/charges')
+    .method('POST')
+    .headers({ 'Content-Type': 'application/json' })
+    .body('{"amount":1000}')
+    .metadata({ orderId: 1234, tags: ['a', 'b'] })
+    .webhooks([{ url: 'https://app.example.com/webhook', has_quorum_vote: true }])
+    .regions(['iad', 'lax'])
+    .executionMode('fanout')
+    .retryPolicy({ max_retries: 2, retry_codes: [503] })
+    .idempotentKey('order:1234')
+    .fallback(new Step().url('https://backup.example.com/charges').method('POST'), { triggerOnError: [500, 502] })
+    .onSuccess(new Step().url('https://api.example.com/receipts').idempotentStrategy(IdempotentStrategy.UNIQUE))
+    .onFailure(new Step().url('https://api.example.com/alerts').method('POST'));
+
+test('fromJSON(toJSON()) rebuilds an identical workflow tree', () => {
+  const definition = workflow().toJSON();
+  const restored = Step.fromJSON(JSON.stringify(workflow()));
+
+  assert.deepEqual(restored.toJSON(), definition);
+  assert.deepEqual(definition.fallbacks[0].trigger, { type: 'on_error', codes: [500, 502] });
+  assert.equal(definition.onSuccess.idempotentStrategy, IdempotentStrategy.UNIQUE);
+});
+
+test('restored steps submit the same job and use the given client', async () => {
+  const original = recordingClient();
+  await workflow().execute(original.client);
+
+  const restored = recordingClient();
+  await Step.fromJSON(workflow().toJSON(), restored.client).execute();
+
+  // UNIQUE keys differ per submission by design
+  const withoutUniqueKey = job => ({ ...job, on_success: { ...job.on_success, idempotent_key: null } });
+  assert.deepEqual(withoutUniqueKey(restored.jobs[0]), withoutUniqueKey(original.jobs[0]));
+});
+
+test('toJSON rejects a step reused inside its own workflow', () => {
+  const step = new Step().url('https://api.example.com/a');
+  step.onSuccess(step);
+  assert.throws(() => step.toJSON(), ValidationError);
+});
+
+test('fromJSON rejects malformed definitions with the path of the problem', () => {
+  assert.throws(() => Step.fromJSON('{not json'), ValidationError);
+
+  const definition = { ...workflow().toJSON(), onSuccess: { url: 'https://api.example.com/a', type: 'turbo' } };
+  assert.throws(
+    () => Step.fromJSON(definition),
+    error => error instanceof ValidationError && error.issues[0].path === 'onSuccess.type'
+  );
+});
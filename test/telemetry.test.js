@@ -0,0 +1,128 @@
+const { test } = require('node:test');
+const assert = require('node:assert/strict');
+const { Step } = require('../dist');
+const { recordingClient } = require('./helpers');
+
+const TRACEPARENT = '00-0af7651916cd43dd8448eb211c80319c-b7ad6b7169203331-01';
+const TRACESTATE = 'vendor=1';
+const TRACE = { traceparent: TRACEPARENT, tracestate: TRACESTATE };
+
+// Just enough of @opentelemetry/api: every context carries the same trace
+function fakeOpenTelemetry() {
+  const spans = [];
+  let active = {};
+  return {
+    spans,
+    api: {
+      trace: {
+        getTracer: () => ({
+          startSpan: name => {
+            const span = { name, attributes: {}, ended: false };
+            spans.push(span);
+            return {
+              setAttribute: (key, value) => { span.attributes[key] = value; },
+              setStatus: status => { span.status = status; },
+              recordException: () => undefined,
+              end: () => { span.ended = true; },
+            };
+          },
+        }),
+        setSpan: (context, span) => ({ ...context, span }),
+      },
+      context: {
+        active: () => active,
+        with: (context, fn) => {
+          const previous = active;
+          active = context;
+          try {
+            return fn();
+          } finally {
+            active = previous;
+          }
+        },
+      },
+      propagation: {
+        inject: (context, carrier) => {
+          if (context.span) Object.assign(carrier, { traceparent: TRACEPARENT, tracestate: TRACESTATE });
+        },
+      },
+    },
+  };
+}
+
+const job = {
+  url: 'https://api.example.com/orders',
+  headers: { 'X-Api-Key': 'target' },
+  metadata: { orderId: 42 },
+  onSuccess: { url: 'https://api.example.com/receipts', method: 'POST' },
+};
+
+test('creates a span per submission and leaves jobs alone without propagate', async () => {
+  const otel = fakeOpenTelemetry();
+  const { client, requests } = recordingClient({ telemetry: { api: otel.api } });
+
+  await client.submitJob(job);
+
+  assert.equal(otel.spans[0].name, 'ezthrottle.submit_job');
+  assert.equal(otel.spans[0].attributes['ezthrottle.job_id'], 'job_1');
+  assert.equal(otel.spans[0].ended, true);
+
+  const [{ headers, envelope }] = requests;
+  assert.equal(headers.traceparent, undefined);
+  assert.equal(envelope.headers.traceparent, undefined);
+  const submitted = JSON.parse(envelope.body);
+  assert.deepEqual(submitted.headers, { 'X-Api-Key': 'target' });
+  assert.deepEqual(submitted.metadata, { orderId: 42 });
+});
+
+test('propagate adds the trace context to the metadata of every job in the tree', async () => {
+  const otel = fakeOpenTelemetry();
+  const { client, requests, jobs } = recordingClient({ telemetry: { api: otel.api, propagate: true } });
+
+  await client.submitJob({
+    ...job,
+    fallbackJob: { url: 'https://backup.example.com/orders', method: 'GET', metadata: { traceparent: 'mine' } },
+  });
+
+  const [submitted] = jobs;
+  assert.deepEqual(submitted.metadata, { ...TRACE, orderId: 42 });
+  assert.deepEqual(submitted.on_success.metadata, TRACE);
+  assert.deepEqual(submitted.fallback_job.metadata, { ...TRACE, traceparent: 'mine' });
+  assert.deepEqual(submitted.headers, { 'X-Api-Key': 'target' });
+  assert.equal(submitted.on_success.headers, undefined);
+
+  const [{ headers, envelope }] = requests;
+  assert.equal(headers.traceparent, TRACEPARENT);
+  assert.equal(envelope.headers.traceparent, TRACEPARENT);
+});
+
+test('propagateToJobHeaders also adds it to the job headers', async () => {
+  const otel = fakeOpenTelemetry();
+  const { client, jobs } = recordingClient({
+    telemetry: { api: otel.api, propagate: true, propagateToJobHeaders: true },
+  });
+
+  await client.submitJob({ ...job, headers: { 'X-Api-Key': 'target', tracestate: 'mine' } });
+
+  const [submitted] = jobs;
+  assert.deepEqual(submitted.headers, { traceparent: TRACEPARENT, tracestate: 'mine', 'X-Api-Key': 'target' });
+  assert.deepEqual(submitted.on_success.headers, TRACE);
+  assert.deepEqual(submitted.on_success.metadata, TRACE);
+});
+
+test('propagateToJobHeaders does nothing without propagate', async () => {
+  const otel = fakeOpenTelemetry();
+  const { client, jobs } = recordingClient({ telemetry: { api: otel.api, propagateToJobHeaders: true } });
+
+  await client.submitJob(job);
+  assert.deepEqual(jobs[0].headers, { 'X-Api-Key': 'target' });
+  assert.deepEqual(jobs[0].metadata, { orderId: 42 });
+});
+
+test('steps submitted with propagate carry the trace context', async () => {
+  const otel = fakeOpenTelemetry();
+  const { client, jobs } = recordingClient({ telemetry: { api: otel.api, propagate: true } });
+
+  await new Step(client).url('https://api.example.com/orders').metadata({ orderId: 42 }).execute();
+  assert.deepEqual(jobs[0].metadata, { ...TRACE, orderId: 42 });
+});
@@ -0,0 +1,109 @@
+const { test, describe, before, after } = require('node:test');
+const assert = require('node:assert/strict');
+const {
+  RateLimitError,
+  ProxyDeniedError,
+  NetworkError,
+  NotFoundError,
+  verifyWebhookSignature,
+} = require('../dist');
+const { createTestServer } = require('../dist/testing');
+const { WEBHOOK_SECRET, listen, close } = require('./helpers');
+
+describe('ezthrottle/testing', () => {
+  let server;
+  let attempts;
+
+  before(async () => {
+    server = await createTestServer({
+      webhookSecret: WEBHOOK_SECRET,
+      target: ({ url, attempt }) => {
+        attempts.push(url);
+        if (url.endsWith('/flaky') && attempt < 3) return { status_code: 503 };
+        return { status_code: 200, body: '{"ok":true}' };
+      },
+    });
+  });
+
+  after(() => server.stop());
+
+  test('runs submitted jobs with retries', async () => {
+    attempts = [];
+    const client = server.client();
+    const { job_id } = await client.submitJob({
+      url: 'https://api.example.com/flaky',
+      retryPolicy: { max_retries: 3 },
+    });
+
+    const response = await client.waitForJob(job_id, { pollInterval: 10, timeout: 2000 });
+    assert.equal(response.status_code, 200);
+    assert.equal(attempts.length, 3);
+
+    const job = await client.getJob(job_id);
+    assert.equal(job.status, 'success');
+    assert.equal(job.attempts, 3);
+  });
+
+  test('deduplicates jobs by idempotent key', async () => {
+    const client = server.client();
+    const first = await client.submitJob({ url: 'https://api.example.com/a', idempotentKey: 'dedupe_1' });
+    const second = await client.submitJob({ url: 'https://api.example.com/b', idempotentKey: 'dedupe_1' });
+
+    assert.equal(second.job_id, first.job_id);
+    assert.equal((await client.getJobByIdempotentKey('dedupe_1')).job_id, first.job_id);
+  });
+
+  test('reports unknown jobs as NotFoundError', async () => {
+    await assert.rejects(server.client().getJob('job_missing'), NotFoundError);
+  });
+
+  test('injects rate limits, denials and outages', async () => {
+    const client = server.client();
+    const job = { url: 'https://api.example.com/faults' };
+
+    server.injectRateLimit(1, 2);
+    const error = await client.submitJob(job).catch(e => e);
+    assert.ok(error instanceof RateLimitError);
+    assert.ok(error.retryAt > Date.now());
+
+    server.injectDenial(1);
+    await assert.rejects(client.submitJob(job), ProxyDeniedError);
+
+    server.setProxyDown(true);
+    await assert.rejects(client.submitJob(job), NetworkError);
+    server.resetFaults();
+
+    await client.submitJob(job);
+  });
+
+  test('delivers signed webhooks', async () => {
+    const received = [];
+    const receiver = await listen((req, res) => {
+      const chunks = [];
+      req.on('data', chunk => chunks.push(chunk));
+      req.on('end', () => {
+        received.push({ body: Buffer.concat(chunks), signature: req.headers['x-ezthrottle-signature'] });
+        res.end('ok');
+      });
+    });
+
+    try {
+      const { port } = receiver.address();
+      const { job_id } = await server.client().submitJob({
+        url: 'https://api.example.com/notify',
+        webhooks: [{ url: `http://127.0.0.1:${port}/webhook` }],
+      });
+
+      const delivery = await server.waitForWebhook(job_id, 2000);
+      assert.equal(delivery.status_code, 200);
+      assert.equal(delivery.payload.status, 'success');
+
+      const [{ body, signature }] = received;
+      assert.equal(JSON.parse(body).job_id, job_id);
+      assert.equal(verifyWebhookSignature(body, signature, WEBHOOK_SECRET).verified, true);
+      assert.equal(verifyWebhookSignature(body, signature, 'wrong_secret_min_16_chars').verified, false);
+    } finally {
+      await close(receiver);
+    }
+  });
+});
@@ -0,0 +1,83 @@
+const { test, describe } = require('node:test');
+const assert = require('node:assert/strict');
+const net = require('node:net');
+const { EZThrottle, Step, StepType, createTransport } = require('../dist');
+const { listen, close } = require('./helpers');
+
+describe('createTransport', () => {
+  test('wraps a fetch function and sets a default User-Agent', async () => {
+    const calls = [];
+    const transport = createTransport(async (url, init) => {
+      calls.push({ url, init });
+      return new Response('ok');
+    });
+
+    await transport.request('https://api.example.com/a', { method: 'POST', body: '{}' });
+    await transport.request('https://api.example.com/b', { headers: { 'user-agent': 'mine/1.0' } });
+
+    assert.equal(calls[0].init.method, 'POST');
+    assert.equal(calls[0].init.body, '{}');
+    assert.equal(calls[0].init.headers['User-Agent'], 'ezthrottle-node');
+    assert.deepEqual(calls[1].init.headers, { 'user-agent': 'mine/1.0' });
+  });
+
+  test('passes a Transport through unchanged', () => {
+    const transport = { request: async () => new Response('ok') };
+    assert.equal(createTransport(transport), transport);
+  });
+
+  test('aborts requests that exceed timeoutMs', async () => {
+    const transport = createTransport({
+      timeoutMs: 20,
+      fetch: (url, init) => new Promise((resolve, reject) => {
+        init.signal.addEventListener('abort', () => reject(new Error('aborted')));
+      }),
+    });
+
+    await assert.rejects(transport.request('https://api.example.com/slow'), /aborted/);
+  });
+
+  test('tunnels node-fetch requests through an HTTP proxy', async () => {
+    const target = await listen((req, res) => res.end(`reached ${req.url}`));
+    const tunnels = [];
+    const proxy = await listen(() => undefined);
+    proxy.on('connect', (req, socket) => {
+      tunnels.push(req.url);
+      const [host, port] = req.url.split(':');
+      const upstream = net.connect(Number(port), host, () => {
+        socket.write('HTTP/1.1 200 Connection Established\r\n\r\n');
+        upstream.pipe(socket);
+        socket.pipe(upstream);
+      });
+    });
+
+    try {
+      const transport = createTransport({ proxy: `http://127.0.0.1:${proxy.address().port}` });
+      const response = await transport.request(`http://127.0.0.1:${target.address().port}/hello`);
+
+      assert.equal(await response.text(), 'reached /hello');
+      assert.deepEqual(tunnels, [`127.0.0.1:${target.address().port}`]);
+    } finally {
+      proxy.closeAllConnections();
+      target.closeAllConnections();
+      await close(proxy);
+      await close(target);
+    }
+  });
+});
+
+test('FRUGAL steps execute locally through the client transport', async () => {
+  const urls = [];
+  const client = new EZThrottle({
+    apiKey: 'test_api_key',
+    transport: async url => {
+      urls.push(url);
+      return new Response('{"ok":true}', { headers: { 'Content-Type': 'application/json' } });
+    },
+  });
+
+  const result = await new Step(client).type(StepType.FRUGAL).url('https://api.example.com/local').execute();
+
+  assert.equal(result.status, 'success');
+  assert.deepEqual(urls, ['https://api.example.com/local']);
+});
@@ -0,0 +1,82 @@
+const { test } = require('node:test');
+const assert = require('node:assert/strict');
+const { Step, StepType, ValidationError } = require('../dist');
+const { recordingClient } = require('./helpers');
+
+const paths = issues => issues.map(issue => issue.path);
+
+test('a well-formed step is valid', () => {
+  const result = new Step()
+    .url('https://api.example.com/charges')
+    .method('POST')
+    .body('{}')
+    .webhooks([{ url: 'https://app.example.com/webhook' }])
+    .validate();
+
+  assert.deepEqual(result, { valid: true, errors: [], warnings: [] });
+});
+
+test('reports every error of a step with its field', () => {
+  const result = new Step()
+    .url('ftp://files.example.com')
+    .body('{}')
+    .webhooks([{ url: 'not a url' }, { url: 'https://app.example.com/webhook', has_quorum_vote: false }])
+    .webhookQuorum(2)
+    .regionPolicy('strict')
+    .retryPolicy({ max_retries: -1 })
+    .timeout(0)
+    .validate();
+
+  assert.equal(result.valid, false);
+  assert.deepEqual(paths(result.errors), [
+    'url',
+    'body',
+    'webhooks[0].url',
+    'webhookQuorum',
+    'regionPolicy',
+    'retryPolicy.max_retries',
+    'timeout',
+  ]);
+});
+
+test('warnings never make a step invalid', () => {
+  const result = new Step()
+    .url('https://api.example.com/a')
+    .method('BREW')
+    .regions([])
+    .retryAt(Date.now() - 1000)
+    .onFailureTimeout(500)
+    .validate();
+
+  assert.equal(result.valid, true);
+  assert.deepEqual(paths(result.warnings), ['method', 'regions', 'retryAt', 'onFailureTimeout']);
+});
+
+test('issue paths point into the workflow tree', () => {
+  const result = new Step()
+    .type(StepType.PERFORMANCE)
+    .url('https://api.example.com/a')
+    .fallback(new Step().url('https://backup.example.com/a'), { triggerOnTimeout: 500 })
+    .onSuccess(new Step().fallback(new Step().url('https://api.example.com/b'), { triggerOnError: [500] })
+      .fallback(new Step().method('GET').body('{}').url('https://api.example.com/c')))
+    .validate();
+
+  assert.deepEqual(paths(result.errors), ['fallback[0].trigger', 'onSuccess.url', 'onSuccess.fallback[1].body']);
+});
+
+test('rejects templates without a value and steps reused inside their own workflow', () => {
+  const loop = new Step().url('https://api.example.com/a').idempotentKeyTemplate('order:{metadata.orderId}');
+  loop.onFailure(loop);
+
+  assert.deepEqual(paths(loop.validate().errors), ['idempotentKeyTemplate', 'onFailure']);
+});
+
+test('execute() throws a ValidationError with the issues and sends nothing', async () => {
+  const { client, requests } = recordingClient();
+  const step = new Step(client).url('https://api.example.com/a').body('{}');
+
+  const error = await step.execute().catch(e => e);
+  assert.ok(error instanceof ValidationError);
+  assert.deepEqual(paths(error.issues), ['body']);
+  assert.equal(requests.length, 0);
+});
@@ -0,0 +1,198 @@
+const { test, describe } = require('node:test');
+const assert = require('node:assert/strict');
+const {
+  createWebhookHandler,
+  verifyWebhookDelivery,
+  checkWebhookReplay,
+  parseDelivery,
+  MemoryNonceStore,
+  signWebhookPayload,
+} = require('../dist');
+const { WEBHOOK_SECRET, signedDelivery, recordingHandler, withTestServer, listen, close } = require('./helpers');
+
+describe('createWebhookHandler', () => {
+  test('dispatches verified deliveries and rejects bad signatures', async () => {
+    const { handler, events } = recordingHandler();
+    const [body, signature] = signedDelivery();
+
+    assert.equal((await handler.handle(body, signature)).statusCode, 200);
+    assert.equal((await handler.handle(body, signWebhookPayload(body, 'wrong_secret_min_16'))).statusCode, 401);
+    assert.deepEqual(events, [{ job_id: 'job_1', status: 'success', delivery: 'new' }]);
+  });
+
+  test('answers 400 for a job_id that is not a string', async () => {
+    for (const replayProtection of [false, true]) {
+      const { handler, events } = recordingHandler({ replayProtection });
+      const body = JSON.stringify({ job_id: 123, status: 'success' });
+
+      const result = await handler.handle(body, signWebhookPayload(body, WEBHOOK_SECRET));
+      assert.equal(result.statusCode, 400);
+      assert.equal(events.length, 0);
+    }
+  });
+
+  test('leaves replay protection off by default', async () => {
+    const { handler, events } = recordingHandler();
+    const [body, signature] = signedDelivery();
+
+    await handler.handle(body, signature);
+    const again = await handler.handle(body, signature);
+    assert.equal(again.statusCode, 200);
+    assert.equal(again.delivery, undefined);
+    assert.equal(events.length, 2);
+  });
+
+  test('with replay protection, rejects replays and acknowledges duplicates', async () => {
+    const { handler, events } = recordingHandler({ replayProtection: true });
+    const now = Math.floor(Date.now() / 1000);
+    const [body, signature] = signedDelivery('job_1', now);
+
+    assert.equal((await handler.handle(body, signature)).delivery, 'new');
+
+    const replay = await handler.handle(body, signature);
+    assert.equal(replay.statusCode, 401);
+    assert.equal(replay.delivery, 'replay');
+
+    const duplicate = await handler.handle(...signedDelivery('job_1', now - 1));
+    assert.equal(duplicate.statusCode, 200);
+    assert.equal(duplicate.delivery, 'duplicate');
+    assert.deepEqual(events, [{ job_id: 'job_1', status: 'success', delivery: 'new' }]);
+  });
+
+  test('processes the retry of a delivery whose callback failed', async () => {
+    let calls = 0;
+    const handler = createWebhookHandler({
+      secrets: WEBHOOK_SECRET,
+      replayProtection: true,
+      onSuccess: () => {
+        calls++;
+        if (calls === 1) throw new Error('database down');
+      },
+    });
+    const now = Math.floor(Date.now() / 1000);
+
+    assert.equal((await handler.handle(...signedDelivery('job_1', now))).statusCode, 500);
+    const retry = await handler.handle(...signedDelivery('job_1', now + 1));
+    assert.equal(retry.statusCode, 200);
+    assert.equal(retry.delivery, 'new');
+    assert.equal(calls, 2);
+  });
+});
+
+describe('framework adapters', () => {
+  const downStore = {
+    add: async () => {
+      throw new Error('redis down');
+    },
+    delete: async () => undefined,
+  };
+
+  // Minimal stand-ins for each framework's request/response objects; each returns the status sent
+  const adapters = {
+    express: async (handler, { body, headers }) => {
+      let statusCode;
+      const res = { status: code => ((statusCode = code), res), json: () => undefined };
+      await handler.express()({ headers, body, readableEnded: true }, res);
+      return statusCode;
+    },
+    fastify: async (handler, { body, headers }) => {
+      let statusCode;
+      const reply = { code: code => ((statusCode = code), reply), send: () => undefined };
+      await handler.fastify()({ raw: { readableEnded: true }, headers, body }, reply);
+      return statusCode;
+    },
+    koa: async (handler, { body, headers }) => {
+      const ctx = { req: { readableEnded: true }, headers, request: { body } };
+      await handler.koa()(ctx);
+      return ctx.status;
+    },
+  };
+
+  for (const [name, deliver] of Object.entries(adapters)) {
+    test(`${name}: 400 for an already-parsed body, 401 for a bad signature, 500 if the nonce store fails`, async () => {
+      const { handler, events } = recordingHandler({ replayProtection: { store: downStore } });
+      const [body, signature] = signedDelivery();
+
+      assert.equal(await deliver(handler, { body: JSON.parse(body), headers: { 'x-ezthrottle-signature': signature } }), 400);
+      assert.equal(await deliver(handler, { body: Buffer.from(body), headers: {} }), 401);
+      assert.equal(await deliver(handler, { body: Buffer.from(body), headers: { 'x-ezthrottle-signature': signature } }), 500);
+      assert.equal(events.length, 0);
+    });
+  }
+
+  test('node: 500 if the nonce store fails, 401 for a bad signature', async () => {
+    const { handler } = recordingHandler({ replayProtection: { store: downStore } });
+    const receiver = await listen(handler.node());
+    const url = `http://127.0.0.1:${receiver.address().port}/webhook`;
+    const [body, signature] = signedDelivery();
+
+    try {
+      const failed = await fetch(url, { method: 'POST', body, headers: { 'x-ezthrottle-signature': signature } });
+      assert.equal(failed.status, 500);
+      assert.match((await failed.json()).error, /redis down/);
+
+      const unsigned = await fetch(url, { method: 'POST', body });
+      assert.equal(unsigned.status, 401);
+    } finally {
+      await close(receiver);
+    }
+  });
+});
+
+describe('verifyWebhookDelivery', () => {
+  test('detects replays whose signature entries were edited', async () => {
+    const store = new MemoryNonceStore();
+    const now = Math.floor(Date.now() / 1000);
+    const body = JSON.stringify({ job_id: 'job_1', status: 'success' });
+    const signature = signWebhookPayload(body, [WEBHOOK_SECRET, 'old_secret_min_16_chars'], now);
+    const [timestamp, first, second] = signature.split(',');
+
+    const original = await verifyWebhookDelivery(body, signature, WEBHOOK_SECRET, { store });
+    assert.equal(original.delivery, 'new');
+
+    for (const edited of [`${signature},v1=00`, `${timestamp},${second},${first}`, `${timestamp},${first}`]) {
+      const replay = await verifyWebhookDelivery(body, edited, WEBHOOK_SECRET, { store });
+      assert.deepEqual([replay.verified, replay.reason], [false, 'replay_detected'], edited);
+    }
+  });
+});
+
+describe('checkWebhookReplay', () => {
+  test('tells deliveries signed in the same second apart by their body', async () => {
+    const store = new MemoryNonceStore();
+    const now = Math.floor(Date.now() / 1000);
+    const iad = parseDelivery(...signedDelivery('job_1', now, { region: 'iad' }));
+    const lax = parseDelivery(...signedDelivery('job_1', now, { region: 'lax' }));
+
+    assert.equal(await checkWebhookReplay(store, iad), 'new');
+    assert.equal(await checkWebhookReplay(store, lax), 'duplicate');
+    assert.equal(await checkWebhookReplay(store, iad), 'replay');
+  });
+
+  test('acknowledges every fanout region delivered at once', async () => {
+    const { handler, events } = recordingHandler({ replayProtection: true });
+    const receiver = await listen(handler.node());
+
+    try {
+      await withTestServer({ target: () => ({ status_code: 200, body: '{}' }) }, async server => {
+        const { job_id } = await server.client().submitJob({
+          url: 'https://api.example.com/broadcast',
+          executionMode: 'fanout',
+          regions: ['iad', 'lax', 'ord'],
+          webhooks: [{ url: `http://127.0.0.1:${receiver.address().port}/webhook` }],
+        });
+
+        const deadline = Date.now() + 2000;
+        while (server.webhooks.filter(d => d.job_id === job_id).length < 3 && Date.now() < deadline) {
+          await new Promise(resolve => setTimeout(resolve, 10));
+        }
+
+        const deliveries = server.webhooks.filter(d => d.job_id === job_id);
+        assert.deepEqual(deliveries.map(d => d.status_code), [200, 200, 200]);
+        assert.deepEqual(events, [{ job_id, status: 'success', delivery: 'new' }]);
+      });
+    } finally {
+      await close(receiver);
+    }
+  });
+});
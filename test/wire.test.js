@@ -0,0 +1,65 @@
+const { test, describe } = require('node:test');
+const assert = require('node:assert/strict');
+const fs = require('node:fs');
+const path = require('node:path');
+const { encodeJobPayload, decodeJobPayload, WIRE_SCHEMA_VERSION } = require('../dist');
+const { createTestServer } = require('../dist/testing');
+
+const FIXTURES = path.join(__dirname, 'fixtures', 'wire');
+
+function loadFixtures(version) {
+  const dir = path.join(FIXTURES, `v${version}`);
+  return fs.readdirSync(dir)
+    .filter(file => file.endsWith('.json'))
+    .map(file => JSON.parse(fs.readFileSync(path.join(dir, file), 'utf-8')));
+}
+
+test('every schema version has golden fixtures', () => {
+  assert.ok(fs.existsSync(path.join(FIXTURES, `v${WIRE_SCHEMA_VERSION}`)));
+});
+
+describe(`wire schema v${WIRE_SCHEMA_VERSION}`, () => {
+  for (const fixture of loadFixtures(WIRE_SCHEMA_VERSION)) {
+    test(`encodes: ${fixture.name}`, () => {
+      assert.deepEqual(encodeJobPayload(fixture.payload), fixture.wire);
+    });
+
+    test(`decodes: ${fixture.name}`, () => {
+      assert.deepEqual(decodeJobPayload(fixture.wire), fixture.decoded || fixture.payload);
+    });
+  }
+});
+
+test('nested options reach the server', async () => {
+  const calls = [];
+  const server = await createTestServer({
+    target: ({ url, region }) => {
+      calls.push({ url, region });
+      return { status_code: url.includes('primary') ? 503 : 200 };
+    },
+  });
+
+  try {
+    const client = server.client();
+    const { job_id } = await client.submitJob({
+      url: 'https://api.example.com/primary',
+      retryPolicy: { max_retries: 1, retry_codes: [503] },
+      fallbackJob: {
+        url: 'https://api.example.com/secondary',
+        method: 'GET',
+        regions: ['ord'],
+        trigger: { type: 'on_error', codes: [503] },
+      },
+    });
+
+    await client.waitForJob(job_id, { pollInterval: 10, timeout: 2000 });
+    assert.deepEqual(calls.map(call => call.url), [
+      'https://api.example.com/primary',
+      'https://api.example.com/primary',
+      'https://api.example.com/secondary',
+    ]);
+    assert.equal(calls[2].region, 'ord');
+  } finally {
+    await server.stop();
+  }
+});
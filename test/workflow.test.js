@@ -0,0 +1,134 @@
+const { test, describe, before, after, beforeEach } = require('node:test');
+const assert = require('node:assert/strict');
+const { Step, StepType } = require('../dist');
+const { withTestServer, listen, close } = require('./helpers');
+
+describe('FRUGAL workflows', () => {
+  let target;
+  let base;
+  let hits;
+
+  before(async () => {
+    // /ok and /alert answer 200, /bad 400, /err 500, /slow 200 after 300ms
+    target = await listen((req, res) => {
+      hits.push(req.url);
+      const status = { '/bad': 400, '/err': 500 }[req.url] || 200;
+      setTimeout(() => {
+        res.writeHead(status, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ path: req.url }));
+      }, req.url === '/slow' ? 300 : 0);
+    });
+    base = `http://127.0.0.1:${target.address().port}`;
+  });
+
+  beforeEach(() => {
+    hits = [];
+  });
+
+  after(() => {
+    target.closeAllConnections();
+    return close(target);
+  });
+
+  // Run `build(client)` against a test server without the local rate limiter
+  const run = build => withTestServer({ target: () => ({ status_code: 200, body: '{}' }) }, async server => {
+    const result = await build(server.client({ localRateLimit: false })).execute();
+    return { result, server, trace: result.trace.map(({ path, location, outcome, reason }) => ({ path, location, outcome, reason })) };
+  });
+
+  const local = (path, outcome) => ({ path, location: 'local', outcome, reason: undefined });
+
+  test('runs onSuccess after a local success', async () => {
+    const { result, trace } = await run(client =>
+      new Step(client).type(StepType.FRUGAL).url(`${base}/ok`).onSuccess(new Step().type(StepType.FRUGAL).url(`${base}/alert`)));
+
+    assert.equal(result.status, 'success');
+    assert.deepEqual(result.data, { path: '/ok' });
+    assert.deepEqual(hits, ['/ok', '/alert']);
+    assert.deepEqual(trace, [local('', 'success'), local('onSuccess', 'success')]);
+  });
+
+  test('tries the first fallback whose on_error codes match', async () => {
+    const { result, trace } = await run(client =>
+      new Step(client)
+        .type(StepType.FRUGAL)
+        .url(`${base}/bad`)
+        .fallback(new Step().type(StepType.FRUGAL).url(`${base}/err`), { triggerOnError: [503] })
+        .fallback(new Step().type(StepType.FRUGAL).url(`${base}/ok`), { triggerOnError: [400] }));
+
+    assert.equal(result.status, 'success');
+    assert.deepEqual(hits, ['/bad', '/ok']);
+    assert.deepEqual(trace, [local('', 'failed'), local('fallback[1]', 'success')]);
+  });
+
+  test('fires on_timeout fallbacks when their timeout elapses', async () => {
+    const startedAt = Date.now();
+    const { result, trace } = await run(client =>
+      new Step(client)
+        .type(StepType.FRUGAL)
+        .url(`${base}/slow`)
+        .fallback(new Step().type(StepType.FRUGAL).url(`${base}/ok`), { triggerOnTimeout: 50 }));
+
+    assert.equal(result.status, 'success');
+    assert.deepEqual(result.data, { path: '/ok' });
+    assert.deepEqual(trace, [local('', 'timeout'), local('fallback[0]', 'success')]);
+    assert.ok(Date.now() - startedAt < 300);
+  });
+
+  test('runs onFailure after a terminal local failure', async () => {
+    const { result, server, trace } = await run(client =>
+      new Step(client).type(StepType.FRUGAL).url(`${base}/bad`).onFailure(new Step().type(StepType.FRUGAL).url(`${base}/alert`)));
+
+    assert.equal(result.status, 'failed');
+    assert.equal(result.status_code, 400);
+    assert.deepEqual(hits, ['/bad', '/alert']);
+    assert.deepEqual(trace, [local('', 'failed'), local('onFailure', 'success')]);
+    assert.equal(server.jobs.length, 0);
+  });
+
+  test('bounds onFailure by onFailureTimeout', async () => {
+    const startedAt = Date.now();
+    const { result, trace } = await run(client =>
+      new Step(client)
+        .type(StepType.FRUGAL)
+        .url(`${base}/bad`)
+        .onFailure(new Step().type(StepType.FRUGAL).url(`${base}/slow`), 50));
+
+    assert.equal(result.status, 'failed');
+    assert.deepEqual(trace, [local('', 'failed'), local('onFailure', 'timeout')]);
+    assert.ok(Date.now() - startedAt < 300);
+  });
+
+  test('forwards a PERFORMANCE fallback with the rest of the workflow', async () => {
+    const { result, server, trace } = await run(client =>
+      new Step(client)
+        .type(StepType.FRUGAL)
+        .url(`${base}/bad`)
+        .fallback(new Step().url('https://backup.example.com/charge'), { triggerOnError: [400] })
+        .onSuccess(new Step().type(StepType.FRUGAL).url(`${base}/alert`)));
+
+    assert.equal(result.status, 'queued');
+    assert.equal(result.job_id, server.jobs[0].job_id);
+    assert.deepEqual(hits, ['/bad']);
+    assert.deepEqual(trace, [
+      local('', 'failed'),
+      { path: 'fallback[0]', location: 'ezthrottle', outcome: 'forwarded', reason: 'performance' },
+    ]);
+  });
+
+  test('forwards retryable failures without a matching fallback', async () => {
+    const { result, trace } = await run(client =>
+      new Step(client)
+        .type(StepType.FRUGAL)
+        .url(`${base}/err`)
+        .fallback(new Step().type(StepType.FRUGAL).url(`${base}/ok`), { triggerOnError: [400] })
+        .onFailure(new Step().type(StepType.FRUGAL).url(`${base}/alert`)));
+
+    assert.equal(result.status, 'queued');
+    assert.deepEqual(hits, ['/err']);
+    assert.deepEqual(trace, [
+      local('', 'failed'),
+      { path: '', location: 'ezthrottle', outcome: 'forwarded', reason: 'retryable_failure' },
+    ]);
+  });
+});